@@ -0,0 +1,108 @@
+// Minimal stand-in for the backend's password reset endpoints, for trying the
+// forgot-password flow locally.
+//
+//   npm run mock:auth
+//   VITE_API_URL=http://localhost:4011/api npm run dev
+//
+// Requesting a reset logs the link instead of emailing it. Beyond the issued
+// tokens, /reset-password/expired answers 410 and anything else unknown 404.
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 4011);
+const APP_URL = process.env.APP_URL ?? 'http://localhost:5173';
+const TOKEN_TTL_MS = Number(process.env.TOKEN_TTL_MS ?? 15 * 60_000);
+
+// token -> { email, expiresAt }
+const tokens = new Map();
+
+const cors = (req, res) => {
+  // Credentials are sent, so the origin must be echoed rather than `*`
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Idempotency-Key');
+};
+
+const send = (res, status, route, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ success: status < 400, route, message: '', ...body }));
+};
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+// Why a token can't be used, or null if it can
+const tokenProblem = (token) => {
+  const entry = tokens.get(token);
+  if (token === 'expired' || (entry && entry.expiresAt < Date.now())) {
+    return [410, 'This reset link has expired'];
+  }
+  return entry ? null : [404, 'Reset link not found'];
+};
+
+const server = createServer(async (req, res) => {
+  cors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const route = url.pathname.replace(/^\/api/, '');
+
+  if (req.method === 'POST' && route === '/forgot-password') {
+    const { email } = await readJson(req);
+    if (typeof email !== 'string' || !email.includes('@')) {
+      send(res, 422, route, { message: 'Validation failed', errors: { email: ['Enter a valid email address'] } });
+      return;
+    }
+    const token = randomBytes(16).toString('hex');
+    tokens.set(token, { email, expiresAt: Date.now() + TOKEN_TTL_MS });
+    console.log(`reset link for ${email}: ${APP_URL}/reset-password/${token}`);
+    send(res, 200, route, { message: 'If the account exists, a reset email has been sent' });
+    return;
+  }
+
+  const match = route.match(/^\/reset-password\/([^/]+)$/);
+  if (match) {
+    const token = decodeURIComponent(match[1]);
+    const problem = tokenProblem(token);
+    if (problem) {
+      send(res, problem[0], route, { message: problem[1] });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      send(res, 200, route, { message: 'Token is valid' });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const { password } = await readJson(req);
+      if (typeof password !== 'string' || password.length < 8) {
+        send(res, 422, route, { message: 'Validation failed', errors: { password: ['Must be at least 8 characters'] } });
+        return;
+      }
+      console.log(`password reset for ${tokens.get(token).email}`);
+      // Single use
+      tokens.delete(token);
+      send(res, 200, route, { message: 'Password has been reset' });
+      return;
+    }
+  }
+
+  send(res, 404, route, { message: 'Not found' });
+});
+
+server.listen(PORT, () => console.log(`Mock auth API on http://localhost:${PORT}/api`));
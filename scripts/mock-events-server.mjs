@@ -0,0 +1,67 @@
+// Minimal stand-in for the backend's RBAC event stream, for trying live
+// permission updates locally.
+//
+//   npm run mock:events
+//   VITE_EVENTS_URL=http://localhost:4010/events npm run dev
+//   curl -X POST http://localhost:4010/emit -d '{"type":"role_permissions.changed","role_id":1}'
+//
+// Every JSON body POSTed to /emit is forwarded to all connected tabs.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 4010);
+const clients = new Set();
+
+const cors = (req, res) => {
+  // Credentials are sent, so the origin must be echoed rather than `*`
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+};
+
+const server = createServer((req, res) => {
+  cors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/events') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    clients.add(res);
+    console.log(`client connected (${clients.size} open)`);
+    req.on('close', () => {
+      clients.delete(res);
+      console.log(`client disconnected (${clients.size} open)`);
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/emit') {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        const event = JSON.stringify(JSON.parse(body));
+        clients.forEach((client) => client.write(`data: ${event}\n\n`));
+        console.log(`sent to ${clients.size} clients: ${event}`);
+        res.writeHead(202).end();
+      } catch {
+        res.writeHead(400).end('Body must be JSON\n');
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404).end();
+});
+
+// Comments keep idle connections from being closed by proxies
+setInterval(() => clients.forEach((client) => client.write(': ping\n\n')), 25_000).unref();
+
+server.listen(PORT, () => console.log(`Mock event stream on http://localhost:${PORT}/events`));
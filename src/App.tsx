@@ -1,20 +1,88 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
+import {
+  createBrowserRouter,
+  createRoutesFromElements,
+  Route,
+  RouterProvider,
+} from "react-router-dom";
+import { queryClient } from "./api/queries";
 import { AuthProvider } from "./contexts/AuthContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
+import { routeGuards } from "./lib/permissions";
 import Login from "./pages/auth/Login";
 import Register from "./pages/auth/Register";
+import OAuthCallback from "./pages/auth/OAuthCallback";
+import ForgotPassword from "./pages/auth/ForgotPassword";
+import ResetPassword from "./pages/auth/ResetPassword";
 import Dashboard from "./pages/Dashboard";
 import Users from "./pages/Users";
+import UserDetail from "./pages/UserDetail";
 import Roles from "./pages/Roles";
 import Permissions from "./pages/Permissions";
 import RolePermissions from "./pages/RolePermissions";
+import PermissionRegistry from "./pages/PermissionRegistry";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Data router (rather than <BrowserRouter>) so pages can block navigation
+// with useBlocker while they hold unsaved changes
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <>
+      {/* Public Routes */}
+      <Route path="/login" element={<Login />} />
+      <Route path="/register" element={<Register />} />
+      <Route path="/auth/callback" element={<OAuthCallback />} />
+      <Route path="/forgot-password" element={<ForgotPassword />} />
+      <Route path="/reset-password/:token" element={<ResetPassword />} />
+    
+      {/* Protected Routes */}
+      <Route path="/dashboard" element={
+        //<ProtectedRoute>
+          <Dashboard />
+        //</ProtectedRoute>
+      } />
+      <Route path="/users" element={
+        <ProtectedRoute requiredPermission={routeGuards["/users"]}>
+          <Users />
+        </ProtectedRoute>
+      } />
+      <Route path="/users/:id" element={
+        <ProtectedRoute requiredPermission={routeGuards["/users/:id"]}>
+          <UserDetail />
+        </ProtectedRoute>
+      } />
+      <Route path="/roles" element={
+        <ProtectedRoute requiredPermission={routeGuards["/roles"]}>
+          <Roles />
+        </ProtectedRoute>
+      } />
+      <Route path="/permissions" element={
+        <ProtectedRoute requiredPermission={routeGuards["/permissions"]}>
+          <Permissions />
+        </ProtectedRoute>
+      } />
+      <Route path="/role-permissions" element={
+        <ProtectedRoute requiredPermission={routeGuards["/role-permissions"]}>
+          <RolePermissions />
+        </ProtectedRoute>
+      } />
+    
+      {/* Developer tooling, left out of production builds */}
+      {import.meta.env.DEV && (
+        <Route path="/dev/permissions" element={
+          <ProtectedRoute requiredPermission={routeGuards["/dev/permissions"]}>
+            <PermissionRegistry />
+          </ProtectedRoute>
+        } />
+      )}
+    
+      <Route path="*" element={<NotFound />} />
+    </>
+  )
+);
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -22,42 +90,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
-        <BrowserRouter>
-          <Routes>
-            {/* Public Routes */}
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            
-            {/* Protected Routes */}
-            <Route path="/dashboard" element={
-              //<ProtectedRoute>
-                <Dashboard />
-              //</ProtectedRoute>
-            } />
-            <Route path="/users" element={
-              <ProtectedRoute requiredPermission="user.read">
-                <Users />
-              </ProtectedRoute>
-            } />
-            <Route path="/roles" element={
-              <ProtectedRoute requiredPermission="role.read">
-                <Roles />
-              </ProtectedRoute>
-            } />
-            <Route path="/permissions" element={
-              <ProtectedRoute requiredPermission="permission.read">
-                <Permissions />
-              </ProtectedRoute>
-            } />
-            <Route path="/role-permissions" element={
-              <ProtectedRoute requiredPermission="permission.read">
-                <RolePermissions />
-              </ProtectedRoute>
-            } />
-            
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <RouterProvider router={router} />
       </TooltipProvider>
     </AuthProvider>
   </QueryClientProvider>
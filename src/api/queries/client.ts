@@ -0,0 +1,47 @@
+import { QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { getErrorToast, UnauthenticatedError } from '@/lib/api';
+
+// Whose access a mutation may have changed. AuthContext re-reads the signed-in
+// user's permissions when their role is listed, and their session when they are.
+export interface AccessChange {
+  roleIds?: number[] | 'all';
+  userIds?: number[];
+}
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: {
+      // Fallback toast text when a query fails; omit to fail silently
+      errorMessage?: string;
+    };
+    mutationMeta: {
+      affectsAccess?: (variables: unknown) => AccessChange;
+    };
+  }
+}
+
+// Typed wrapper for the `affectsAccess` meta, which only sees `unknown` variables
+export const affectsAccess = <TVariables>(describe: (variables: TVariables) => AccessChange) => ({
+  affectsAccess: describe as (variables: unknown) => AccessChange,
+});
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      // An expired session is explained once by the session-expired dialog
+      // rather than by a toast per failing query
+      if (error instanceof UnauthenticatedError) return;
+      if (query.meta?.errorMessage) {
+        toast(getErrorToast(error, query.meta.errorMessage));
+      }
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      // ApiClient already retries transient failures with backoff
+      retry: false,
+      staleTime: 30_000,
+    },
+  },
+});
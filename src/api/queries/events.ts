@@ -0,0 +1,26 @@
+import { QueryClient } from '@tanstack/react-query';
+import { BackendEvent } from '@/lib/api';
+import { AccessChange } from './client';
+import { queryKeys } from './keys';
+
+// Brings the cache in line with a change another admin made, and reports
+// whose access it touched so AuthContext can refresh the signed-in user
+export const applyBackendEvent = (queryClient: QueryClient, event: BackendEvent): AccessChange => {
+  switch (event.type) {
+    case 'role_permissions.changed':
+      queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.byRole(event.role_id) });
+      return { roleIds: [event.role_id] };
+    case 'role.changed':
+      queryClient.invalidateQueries({ queryKey: queryKeys.roles.all });
+      // Users embed their role
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+      return { roleIds: [event.role_id] };
+    case 'permission.changed':
+      queryClient.invalidateQueries({ queryKey: queryKeys.permissions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.all });
+      return { roleIds: 'all' };
+    case 'user.changed':
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+      return { userIds: [event.user_id] };
+  }
+};
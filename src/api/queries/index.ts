@@ -0,0 +1,11 @@
+export { queryClient } from './client';
+export type { AccessChange } from './client';
+export { queryKeys } from './keys';
+export * from './users';
+export * from './roles';
+export * from './permissions';
+export * from './role-permissions';
+export * from './reports';
+export * from './rbac-bundle';
+export * from './events';
+export * from './password-reset';
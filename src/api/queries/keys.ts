@@ -0,0 +1,27 @@
+import type { UserListParams } from './users';
+
+// Every query key the app uses lives here so invalidations can target exactly
+// what a mutation touched. Keys are hierarchical: invalidating `all` covers
+// every more specific key beneath it.
+export const queryKeys = {
+  users: {
+    all: ['users'] as const,
+    list: (params: UserListParams) => ['users', 'list', params] as const,
+    detail: (userId: number) => ['users', 'detail', userId] as const,
+    history: (userId: number) => ['users', 'history', userId] as const,
+    existingEmails: (emails: string[]) => ['users', 'existingEmails', emails] as const,
+  },
+  roles: {
+    all: ['roles'] as const,
+  },
+  permissions: {
+    all: ['permissions'] as const,
+  },
+  rolePermissions: {
+    all: ['rolePermissions'] as const,
+    byRole: (roleId: number) => ['rolePermissions', 'role', roleId] as const,
+  },
+  passwordReset: {
+    token: (token: string) => ['passwordReset', 'token', token] as const,
+  },
+};
@@ -0,0 +1,61 @@
+import { queryOptions, useMutation, useQuery } from '@tanstack/react-query';
+import { api, FieldErrors, FieldValidationError, HttpError, parseFieldErrors } from '@/lib/api';
+import { queryKeys } from './keys';
+import { ensureSuccess } from './request';
+
+export interface PasswordResetInput {
+  token: string;
+  password: string;
+}
+
+export type ResetTokenProblem = 'expired' | 'invalid';
+
+// Reset links go out by email, so the request is acknowledged the same way
+// whether or not an account exists for the address.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  ensureSuccess('/forgot-password', await api.post('/forgot-password', { email }));
+};
+
+// Checked before showing the form, so a dead link says so up front instead
+// of after the user has picked a new password
+export const resetTokenQuery = (token: string) =>
+  queryOptions({
+    queryKey: queryKeys.passwordReset.token(token),
+    queryFn: async ({ signal }) => {
+      const endpoint = `/reset-password/${encodeURIComponent(token)}`;
+      ensureSuccess(endpoint, await api.get(endpoint, { signal }));
+      return true;
+    },
+    // The page explains a bad token itself, so no toast
+    staleTime: Infinity,
+  });
+
+export const useResetToken = (token: string) => useQuery(resetTokenQuery(token));
+
+export const resetPassword = async ({ token, password }: PasswordResetInput): Promise<void> => {
+  const endpoint = `/reset-password/${encodeURIComponent(token)}`;
+  ensureSuccess(endpoint, await api.post(endpoint, { password }));
+};
+
+export const useRequestPasswordReset = () => useMutation({ mutationFn: requestPasswordReset });
+
+export const useResetPassword = () => useMutation({ mutationFn: resetPassword });
+
+// Per-field messages from a rejected reset. Some backends send a weak
+// password as a 400 rather than a 422, so both are read.
+export const getResetFieldErrors = (error: unknown): FieldErrors => {
+  if (error instanceof FieldValidationError) return error.fieldErrors;
+  return error instanceof HttpError && error.status === 400 ? parseFieldErrors(error.payload?.errors) : {};
+};
+
+// Whether an error means the reset link itself is unusable. The backend
+// answers 410 for a token past its expiry and 400/404 for one it doesn't
+// know or that was already used; anything else is worth a retry. A 400
+// carrying field errors is about the submitted password, not the link.
+export const getResetTokenProblem = (error: unknown): ResetTokenProblem | null => {
+  if (!(error instanceof HttpError)) return null;
+  if (error.status === 410 || /expired/i.test(error.message)) return 'expired';
+  if (error.status === 400 && Object.keys(getResetFieldErrors(error)).length > 0) return null;
+  if (error.status === 400 || error.status === 404) return 'invalid';
+  return null;
+};
@@ -0,0 +1,68 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, Permission, permissionListSchema, permissionSchema } from '@/lib/api';
+import { affectsAccess } from './client';
+import { queryKeys } from './keys';
+import { ensureSuccess, getData, unwrap } from './request';
+
+export interface PermissionInput {
+  name: string;
+  description: string;
+}
+
+export const permissionsQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.permissions.all,
+    queryFn: ({ signal }) => getData('/permissions', permissionListSchema, signal),
+    meta: { errorMessage: 'Failed to fetch permissions' },
+  });
+
+export const usePermissions = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...permissionsQuery(), enabled });
+
+export const createPermission = async (input: PermissionInput): Promise<Permission> =>
+  unwrap('/permissions', await api.post('/permissions', input, { schema: permissionSchema }));
+
+export const updatePermission = async ({
+  id,
+  ...input
+}: PermissionInput & { id: number }): Promise<Permission> => {
+  const endpoint = `/permissions/${id}`;
+  return unwrap(endpoint, await api.put(endpoint, input, { schema: permissionSchema }));
+};
+
+export const deletePermission = async (id: number): Promise<void> => {
+  const endpoint = `/permissions/${id}`;
+  ensureSuccess(endpoint, await api.delete(endpoint));
+};
+
+export const useCreatePermission = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createPermission,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.permissions.all }),
+  });
+};
+
+export const useUpdatePermission = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updatePermission,
+    // Guards match by name, so a rename changes what every holder can do
+    meta: affectsAccess(() => ({ roleIds: 'all' })),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.permissions.all }),
+  });
+};
+
+export const useDeletePermission = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deletePermission,
+    meta: affectsAccess(() => ({ roleIds: 'all' })),
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.permissions.all }),
+        // The backend drops the permission's assignments along with it
+        queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.all }),
+      ]),
+  });
+};
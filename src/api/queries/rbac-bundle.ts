@@ -0,0 +1,157 @@
+import { QueryClient, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ForbiddenError } from '@/lib/api';
+import { RbacBundlePermission, RbacBundleRole, RbacChange, RbacSnapshot, retiredRole } from '@/lib/rbac-bundle';
+import { isReservedRoleName, RESERVED_ROLE_NAME_MESSAGE } from '@/lib/roles';
+import { affectsAccess } from './client';
+import { queryKeys } from './keys';
+import { createPermission, deletePermission, permissionsQuery, updatePermission } from './permissions';
+import { assignPermission, revokePermission, rolePermissionsQuery } from './role-permissions';
+import { createRole, deleteRole, rolesQuery, updateRole } from './roles';
+import { countRoleHolders } from './users';
+
+// Fresh copy of the live configuration. Bypasses cached data so a diff is
+// never computed against a stale view.
+export const fetchRbacSnapshot = async (queryClient: QueryClient): Promise<RbacSnapshot> => {
+  const [roles, permissions] = await Promise.all([
+    queryClient.fetchQuery({ ...rolesQuery(), staleTime: 0 }),
+    queryClient.fetchQuery({ ...permissionsQuery(), staleTime: 0 }),
+  ]);
+  const perRole = await Promise.all(
+    roles.map((role) => queryClient.fetchQuery({ ...rolePermissionsQuery(role.id), staleTime: 0 }))
+  );
+
+  return {
+    roles,
+    permissions,
+    assignments: new Map(
+      roles.map((role, index) => [role.id, new Set(perRole[index].map((rp) => rp.permission_id))])
+    ),
+  };
+};
+
+// Users holding a role the import would retire, or null when this admin
+// can't read users (counting them needs user.read)
+export const fetchRoleHolderCount = async (roleId: number): Promise<number | null> => {
+  try {
+    return await countRoleHolders(roleId);
+  } catch (error) {
+    if (error instanceof ForbiddenError) return null;
+    throw error;
+  }
+};
+
+// Changes must run in dependency order: permissions and roles exist before
+// they are linked, and links are gone before anything is deleted
+const phase: Record<RbacChange['kind'], number> = {
+  'create-permission': 0,
+  'update-permission': 0,
+  'create-role': 1,
+  'update-role': 1,
+  assign: 2,
+  revoke: 2,
+  'delete-role': 3,
+  'delete-permission': 4,
+};
+
+// Applies the selected changes against `live`, one at a time. Returns each
+// change's error (null on success); a failure doesn't stop later changes,
+// though anything depending on a failed create will fail in turn.
+export const applyRbacChanges = async ({
+  changes,
+  live,
+  onProgress,
+}: {
+  changes: RbacChange[];
+  live: RbacSnapshot;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<Map<string, unknown>> => {
+  const results = new Map<string, unknown>();
+  const roleIds = new Map(live.roles.map((role) => [role.name, role.id]));
+  const permissionIds = new Map(live.permissions.map((permission) => [permission.name, permission.id]));
+
+  const idOf = (ids: Map<string, number>, name: string, what: string) => {
+    const id = ids.get(name);
+    if (id === undefined) throw new Error(`${what} ${name} does not exist on this backend`);
+    return id;
+  };
+
+  const permissionInput = ({ name, description }: RbacBundlePermission) => ({ name, description });
+  const roleInput = ({ name, description, active }: RbacBundleRole) => ({ name, description, active });
+
+  const run = async (change: RbacChange) => {
+    // Re-checked here in case users were given the role since the diff
+    const retiring = retiredRole(change);
+    const held = retiring ? await fetchRoleHolderCount(retiring.id) : 0;
+    if (held === null) {
+      throw new Error(`Can't check who holds ${retiring.name} without user.read`);
+    }
+    if (held > 0) {
+      throw new Error(`${held} users still hold ${retiring.name}; reassign them from the Roles page first`);
+    }
+
+    switch (change.kind) {
+      case 'create-permission': {
+        const created = await createPermission(permissionInput(change.permission));
+        permissionIds.set(created.name, created.id);
+        return;
+      }
+      case 'update-permission':
+        await updatePermission({ id: change.live.id, ...permissionInput(change.permission) });
+        return;
+      case 'delete-permission':
+        await deletePermission(change.live.id);
+        return;
+      case 'create-role': {
+        if (isReservedRoleName(change.role.name)) throw new Error(RESERVED_ROLE_NAME_MESSAGE);
+        const created = await createRole(roleInput(change.role));
+        roleIds.set(created.name, created.id);
+        return;
+      }
+      case 'update-role':
+        await updateRole({ id: change.live.id, ...roleInput(change.role) });
+        return;
+      case 'delete-role':
+        await deleteRole(change.live.id);
+        return;
+      case 'assign':
+      case 'revoke': {
+        const input = {
+          roleId: idOf(roleIds, change.roleName, 'Role'),
+          permissionId: idOf(permissionIds, change.permissionName, 'Permission'),
+        };
+        await (change.kind === 'assign' ? assignPermission(input) : revokePermission(input));
+        return;
+      }
+    }
+  };
+
+  const ordered = [...changes].sort((a, b) => phase[a.kind] - phase[b.kind]);
+  for (const change of ordered) {
+    try {
+      await run(change);
+      results.set(change.id, null);
+    } catch (error) {
+      results.set(change.id, error);
+    }
+    onProgress?.(results.size, ordered.length);
+  }
+
+  return results;
+};
+
+export const useApplyRbacChanges = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: applyRbacChanges,
+    // Can rename, delete or re-link anything
+    meta: affectsAccess(() => ({ roleIds: 'all' })),
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.roles.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.permissions.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.all }),
+        // Users embed their role
+        queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+      ]),
+  });
+};
@@ -0,0 +1,25 @@
+import { QueryClient } from '@tanstack/react-query';
+import { RolePermission, User } from '@/lib/api';
+import { rolePermissionsQuery } from './role-permissions';
+import { usersQuery } from './users';
+
+// Everything the access report needs: every user, plus the assignments of
+// each role at least one of them holds. Reads through the query cache.
+export const fetchAccessData = async (
+  queryClient: QueryClient
+): Promise<{ users: User[]; assignments: Map<number, RolePermission[]> }> => {
+  const users = await queryClient.fetchQuery(usersQuery());
+  const roleIds = [...new Set(users.map((user) => user.role_id))];
+  const perRole = await Promise.all(roleIds.map((roleId) => queryClient.fetchQuery(rolePermissionsQuery(roleId))));
+
+  return { users, assignments: new Map(roleIds.map((roleId, index) => [roleId, perRole[index]])) };
+};
+
+// Every role's assignments, flattened, for exporting the full role mapping
+export const fetchAllRolePermissions = async (
+  queryClient: QueryClient,
+  roleIds: number[]
+): Promise<RolePermission[]> => {
+  const perRole = await Promise.all(roleIds.map((roleId) => queryClient.fetchQuery(rolePermissionsQuery(roleId))));
+  return perRole.flat();
+};
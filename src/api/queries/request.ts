@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { api, ApiError, ApiResponse } from '@/lib/api';
+
+// Query functions want the payload, not the envelope: anything other than a
+// successful response with data becomes a thrown ApiError.
+export const unwrap = <T>(endpoint: string, response: ApiResponse<T>): T => {
+  if (!response.success || response.data === undefined) {
+    throw new ApiError(endpoint, response.message || `Request to ${endpoint} failed`, {
+      payload: response,
+    });
+  }
+  return response.data;
+};
+
+export const getData = async <T>(
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  signal?: AbortSignal
+): Promise<T> => unwrap(endpoint, await api.get(endpoint, { schema, signal }));
+
+// For mutations whose response body we don't need beyond the success flag
+export const ensureSuccess = <T>(endpoint: string, response: ApiResponse<T>): ApiResponse<T> => {
+  if (!response.success) {
+    throw new ApiError(endpoint, response.message || `Request to ${endpoint} failed`, {
+      payload: response,
+    });
+  }
+  return response;
+};
+
+// Query string from a params object, leaving out empty values
+export const toQueryString = (params: Record<string, string | number | boolean | null | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') search.set(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+};
@@ -0,0 +1,255 @@
+import {
+  queryOptions,
+  useMutation,
+  useMutationState,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { api, Permission, Role, RolePermission, rolePermissionListSchema } from '@/lib/api';
+import { affectsAccess } from './client';
+import { queryKeys } from './keys';
+import { ensureSuccess, getData } from './request';
+
+export interface RolePermissionInput {
+  roleId: number;
+  permissionId: number;
+}
+
+export const rolePermissionsQuery = (roleId: number) =>
+  queryOptions({
+    queryKey: queryKeys.rolePermissions.byRole(roleId),
+    queryFn: ({ signal }) =>
+      getData(`/rolepermissions/role/${roleId}`, rolePermissionListSchema, signal),
+    meta: { errorMessage: 'Failed to fetch role permissions' },
+  });
+
+// `roleId` may be null while nothing is selected; the query stays idle until then
+export const useRolePermissions = (roleId: number | null) =>
+  useQuery({
+    ...rolePermissionsQuery(roleId ?? 0),
+    enabled: roleId !== null,
+  });
+
+export const assignPermission = async ({ roleId, permissionId }: RolePermissionInput) =>
+  ensureSuccess(
+    '/rolepermissions',
+    await api.post('/rolepermissions', { role_id: roleId, permission_id: permissionId })
+  );
+
+export const revokePermission = async ({ roleId, permissionId }: RolePermissionInput) =>
+  ensureSuccess(
+    '/rolepermissions',
+    await api.delete('/rolepermissions', { role_id: roleId, permission_id: permissionId })
+  );
+
+export interface TogglePermissionInput {
+  role: Role;
+  permission: Permission;
+  // true to grant the permission, false to revoke it
+  assign: boolean;
+}
+
+export const togglePermissionKey = ['rolePermissions', 'toggle'] as const;
+
+// Tail of the request chain per role/permission pair. Chaining makes a quick
+// double-click send POST then DELETE in order instead of racing them.
+const pendingToggles = new Map<string, Promise<unknown>>();
+
+const serialize = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const previous = pendingToggles.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  pendingToggles.set(key, next);
+  next.finally(() => {
+    if (pendingToggles.get(key) === next) pendingToggles.delete(key);
+  }).catch(() => undefined);
+  return next;
+};
+
+const applyToggle = (
+  current: RolePermission[] = [],
+  { role, permission, assign }: TogglePermissionInput
+): RolePermission[] => {
+  const withoutPermission = current.filter((rp) => rp.permission_id !== permission.id);
+  if (!assign) return withoutPermission;
+
+  const now = new Date().toISOString();
+  // Placeholder row until the refetch after settling brings in the real one
+  return [
+    ...withoutPermission,
+    {
+      id: -permission.id,
+      role_id: role.id,
+      permission_id: permission.id,
+      role,
+      permission,
+      created_at: now,
+      updated_at: now,
+    },
+  ];
+};
+
+export const useTogglePermission = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: togglePermissionKey,
+    meta: affectsAccess((input: TogglePermissionInput) => ({ roleIds: [input.role.id] })),
+    mutationFn: (input: TogglePermissionInput) => {
+      const ids = { roleId: input.role.id, permissionId: input.permission.id };
+      return serialize(`${ids.roleId}:${ids.permissionId}`, () =>
+        input.assign ? assignPermission(ids) : revokePermission(ids)
+      );
+    },
+    onMutate: async (input) => {
+      const queryKey = queryKeys.rolePermissions.byRole(input.role.id);
+      await queryClient.cancelQueries({ queryKey });
+      queryClient.setQueryData<RolePermission[]>(queryKey, (current) => applyToggle(current, input));
+    },
+    // Undo only this toggle; restoring a snapshot would also wipe out other
+    // toggles still in flight for the same role
+    onError: (_error, input) => {
+      queryClient.setQueryData<RolePermission[]>(
+        queryKeys.rolePermissions.byRole(input.role.id),
+        (current) => applyToggle(current, { ...input, assign: !input.assign })
+      );
+    },
+    // Refetch once the last pending toggle settles so intermediate responses
+    // don't overwrite optimistic state
+    onSettled: (_data, _error, input) => {
+      const pendingForRole = queryClient.isMutating({
+        mutationKey: togglePermissionKey,
+        predicate: (mutation) =>
+          (mutation.state.variables as TogglePermissionInput | undefined)?.role.id === input.role.id,
+      });
+      if (pendingForRole === 1) {
+        return queryClient.invalidateQueries({
+          queryKey: queryKeys.rolePermissions.byRole(input.role.id),
+        });
+      }
+    },
+  });
+};
+
+// Toggles in flight, as `${roleId}:${permissionId}` keys
+export const usePendingToggles = (): Set<string> => {
+  const pending = useMutationState({
+    filters: { mutationKey: togglePermissionKey, status: 'pending' },
+    select: (mutation) => mutation.state.variables as TogglePermissionInput | undefined,
+  });
+
+  return new Set(
+    pending
+      .filter((input): input is TogglePermissionInput => !!input)
+      .map((input) => `${input.role.id}:${input.permission.id}`)
+  );
+};
+
+// Permission ids with a toggle in flight for the given role
+export const usePendingPermissionToggles = (roleId: number | null): Set<number> => {
+  const pending = usePendingToggles();
+  return new Set(
+    [...pending]
+      .map((key) => key.split(':').map(Number))
+      .filter(([pendingRoleId]) => pendingRoleId === roleId)
+      .map(([, permissionId]) => permissionId)
+  );
+};
+
+// Assigned permission ids for several roles at once, e.g. for the matrix view.
+// Each role shares its cache entry with useRolePermissions.
+export const useRoleAssignments = (roleIds: number[]) =>
+  useQueries({
+    queries: roleIds.map((roleId) => rolePermissionsQuery(roleId)),
+    combine: (results) => ({
+      isLoading: results.some((result) => result.isLoading),
+      assignments: new Map(
+        roleIds.map((roleId, index) => [
+          roleId,
+          new Set((results[index].data ?? []).map((rp) => rp.permission_id)),
+        ])
+      ),
+    }),
+  });
+
+export interface RolePermissionChanges {
+  roleId: number;
+  add: number[];
+  remove: number[];
+}
+
+export interface FailedPermissionChange {
+  permissionId: number;
+  assign: boolean;
+  error: unknown;
+}
+
+// Requests in flight at once when applying a batch; keeps a large save from
+// tripping the backend rate limiter
+const BATCH_CONCURRENCY = 5;
+
+// The backend has no bulk endpoint, so a batch is a series of single
+// assign/revoke calls. Failures are collected rather than aborting the batch.
+export const applyRolePermissionChanges = async ({
+  roleId,
+  add,
+  remove,
+}: RolePermissionChanges): Promise<{ failed: FailedPermissionChange[] }> => {
+  const changes = [
+    ...add.map((permissionId) => ({ permissionId, assign: true })),
+    ...remove.map((permissionId) => ({ permissionId, assign: false })),
+  ];
+  const failed: FailedPermissionChange[] = [];
+
+  for (let i = 0; i < changes.length; i += BATCH_CONCURRENCY) {
+    const chunk = changes.slice(i, i + BATCH_CONCURRENCY);
+    const results = await Promise.allSettled(
+      chunk.map(({ permissionId, assign }) =>
+        serialize(`${roleId}:${permissionId}`, () =>
+          assign
+            ? assignPermission({ roleId, permissionId })
+            : revokePermission({ roleId, permissionId })
+        )
+      )
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failed.push({ ...chunk[index], error: result.reason });
+      }
+    });
+  }
+
+  return { failed };
+};
+
+export const useApplyRolePermissionChanges = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: applyRolePermissionChanges,
+    meta: affectsAccess(({ roleId }: RolePermissionChanges) => ({ roleIds: [roleId] })),
+    onSettled: (_data, _error, { roleId }) =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.byRole(roleId) }),
+  });
+};
+
+// Several roles' batches in one go, e.g. a matrix row toggle. Roles are done
+// one after another so BATCH_CONCURRENCY still bounds the requests in flight.
+export const useApplyBulkRolePermissionChanges = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (batches: RolePermissionChanges[]) => {
+      const failed: FailedPermissionChange[] = [];
+      for (const batch of batches) {
+        failed.push(...(await applyRolePermissionChanges(batch)).failed);
+      }
+      return { failed };
+    },
+    meta: affectsAccess((batches: RolePermissionChanges[]) => ({ roleIds: batches.map(({ roleId }) => roleId) })),
+    onSettled: (_data, _error, batches) =>
+      Promise.all(
+        batches.map(({ roleId }) =>
+          queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.byRole(roleId) })
+        )
+      ),
+  });
+};
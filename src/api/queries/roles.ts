@@ -0,0 +1,136 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, Role, roleListSchema, roleSchema, User } from '@/lib/api';
+import { affectsAccess } from './client';
+import { queryKeys } from './keys';
+import { applyRolePermissionChanges, rolePermissionsQuery } from './role-permissions';
+import { ensureSuccess, getData, unwrap } from './request';
+import { applyBulkUserAction, BulkUserResult } from './users';
+
+export interface RoleInput {
+  name: string;
+  description: string;
+  // Backend default (active) when left out
+  active?: boolean;
+}
+
+export const rolesQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.roles.all,
+    queryFn: ({ signal }) => getData('/roles', roleListSchema, signal),
+    meta: { errorMessage: 'Failed to fetch roles' },
+  });
+
+export const useRoles = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...rolesQuery(), enabled });
+
+export const createRole = async (input: RoleInput): Promise<Role> =>
+  unwrap('/roles', await api.post('/roles', input, { schema: roleSchema }));
+
+export const updateRole = async ({ id, ...input }: RoleInput & { id: number }): Promise<Role> => {
+  const endpoint = `/roles/${id}`;
+  return unwrap(endpoint, await api.put(endpoint, input, { schema: roleSchema }));
+};
+
+export const deleteRole = async (id: number): Promise<void> => {
+  const endpoint = `/roles/${id}`;
+  ensureSuccess(endpoint, await api.delete(endpoint));
+};
+
+export const useCreateRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createRole,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.roles.all }),
+  });
+};
+
+export const useUpdateRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updateRole,
+    meta: affectsAccess(({ id }: RoleInput & { id: number }) => ({ roleIds: [id] })),
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.roles.all }),
+        // Users embed their role
+        queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+      ]),
+  });
+};
+
+export interface RetireRoleInput {
+  role: Role;
+  // Delete the role, or only deactivate it
+  mode: 'delete' | 'deactivate';
+  // Users currently holding the role, and the role they move to
+  users: User[];
+  reassignTo: number | null;
+}
+
+export class RoleReassignmentError extends Error {
+  constructor(public readonly failed: BulkUserResult[]) {
+    super(`${failed.length} users could not be moved to another role`);
+    this.name = 'RoleReassignmentError';
+  }
+}
+
+// Moves the role's users onto another role first, then deletes or deactivates
+// it. If any user can't be moved the role is left untouched, so nobody ends up
+// holding a role that no longer exists.
+export const useRetireRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: affectsAccess(({ role, users }: RetireRoleInput) => ({
+      roleIds: [role.id],
+      userIds: users.map((user) => user.id),
+    })),
+    mutationFn: async ({ role, mode, users, reassignTo }: RetireRoleInput) => {
+      if (users.length > 0) {
+        if (reassignTo === null) throw new Error(`Choose a role for the ${users.length} users holding ${role.name}`);
+        const results = await applyBulkUserAction({ action: { type: 'change-role', roleId: reassignTo }, users });
+        const failed = results.filter((result) => result.error !== null);
+        if (failed.length > 0) throw new RoleReassignmentError(failed);
+      }
+
+      if (mode === 'delete') {
+        await deleteRole(role.id);
+      } else {
+        await updateRole({ id: role.id, name: role.name, description: role.description, active: false });
+      }
+    },
+    onSettled: (_, __, { role, mode }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.roles.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+        mode === 'delete' &&
+          queryClient.removeQueries({ queryKey: queryKeys.rolePermissions.byRole(role.id) }),
+      ]),
+  });
+};
+
+export interface DuplicateRoleInput extends RoleInput {
+  source: Role;
+}
+
+// Creates the role first, then copies the source's assignments onto it. If
+// copying partly fails the new role still exists; the failures are returned.
+export const useDuplicateRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ source, ...input }: DuplicateRoleInput) => {
+      const sourcePermissions = await queryClient.fetchQuery(rolePermissionsQuery(source.id));
+      const role = await createRole(input);
+      const { failed } = await applyRolePermissionChanges({
+        roleId: role.id,
+        add: sourcePermissions.map((rp) => rp.permission_id),
+        remove: [],
+      });
+      return { role, copied: sourcePermissions.length - failed.length, failed };
+    },
+    onSuccess: ({ role }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.roles.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.byRole(role.id) }),
+      ]),
+  });
+};
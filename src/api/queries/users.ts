@@ -0,0 +1,292 @@
+import {
+  keepPreviousData,
+  QueryClient,
+  queryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { api, User, userHistorySchema, userListSchema, userPageSchema, userSchema } from '@/lib/api';
+import { affectsAccess } from './client';
+import { queryKeys } from './keys';
+import { ensureSuccess, getData, toQueryString, unwrap } from './request';
+
+export interface UserInput {
+  name: string;
+  email: string;
+  role_id: number;
+  active: boolean;
+  // Required when creating; left out on update to keep the current password
+  password?: string;
+}
+
+export interface UserListParams {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  search?: string;
+  roleId?: number;
+  active?: boolean;
+}
+
+// Every user, unpaginated. For aggregate views (dashboard counts, lookups);
+// tables should page through usersPageQuery instead.
+export const usersQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.users.all,
+    queryFn: ({ signal }) => getData('/users', userListSchema, signal),
+    meta: { errorMessage: 'Failed to fetch users' },
+  });
+
+export const useUsers = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...usersQuery(), enabled });
+
+export const usersPageQuery = (params: UserListParams) =>
+  queryOptions({
+    queryKey: queryKeys.users.list(params),
+    queryFn: ({ signal }) => {
+      const endpoint = `/users${toQueryString({
+        page: params.page,
+        page_size: params.pageSize,
+        sort_by: params.sortBy,
+        sort_order: params.sortBy ? params.sortOrder : undefined,
+        search: params.search,
+        role_id: params.roleId,
+        active: params.active,
+      })}`;
+      return getData(endpoint, userPageSchema, signal);
+    },
+    meta: { errorMessage: 'Failed to fetch users' },
+  });
+
+// Keeps showing the previous page while the next one loads
+export const useUsersPage = (params: UserListParams) =>
+  useQuery({ ...usersPageQuery(params), placeholderData: keepPreviousData });
+
+// No errorMessage: the detail page renders its own not-found and error states
+export const userQuery = (userId: number) =>
+  queryOptions({
+    queryKey: queryKeys.users.detail(userId),
+    queryFn: ({ signal }) => getData(`/users/${userId}`, userSchema, signal),
+  });
+
+export const useUser = (userId: number, { enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...userQuery(userId), enabled });
+
+// Not every backend deployment records history, so failures stay silent
+export const userHistoryQuery = (userId: number) =>
+  queryOptions({
+    queryKey: queryKeys.users.history(userId),
+    queryFn: ({ signal }) => getData(`/users/${userId}/history`, userHistorySchema, signal),
+  });
+
+export const useUserHistory = (userId: number, { enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...userHistoryQuery(userId), enabled });
+
+export const createUser = async (input: UserInput): Promise<User> =>
+  unwrap('/users', await api.post('/users', input, { schema: userSchema }));
+
+export const updateUser = async ({ id, ...input }: UserInput & { id: number }): Promise<User> => {
+  const endpoint = `/users/${id}`;
+  return unwrap(endpoint, await api.put(endpoint, input, { schema: userSchema }));
+};
+
+export const deleteUser = async (id: number): Promise<void> => {
+  const endpoint = `/users/${id}`;
+  ensureSuccess(endpoint, await api.delete(endpoint));
+};
+
+// How many users hold a role, without loading them all
+export const countRoleHolders = async (roleId: number): Promise<number> => {
+  const endpoint = `/users${toQueryString({ role_id: roleId, page: 1, page_size: 1 })}`;
+  return (await getData(endpoint, userPageSchema)).total;
+};
+
+const EMAIL_LOOKUP_CONCURRENCY = 5;
+
+// Which of the given (lower-cased) addresses already belong to an account.
+// Searches for each address rather than loading every user, so the cost
+// follows the size of the import, not of the user base.
+export const existingEmailsQuery = (emails: string[]) =>
+  queryOptions({
+    queryKey: queryKeys.users.existingEmails(emails),
+    queryFn: async ({ signal }) => {
+      const existing = new Set<string>();
+      for (let i = 0; i < emails.length; i += EMAIL_LOOKUP_CONCURRENCY) {
+        const chunk = emails.slice(i, i + EMAIL_LOOKUP_CONCURRENCY);
+        const pages = await Promise.all(
+          chunk.map((email) =>
+            getData(`/users${toQueryString({ search: email, page: 1, page_size: 10 })}`, userPageSchema, signal)
+          )
+        );
+        pages.forEach((page, index) => {
+          // Search also matches names and partial addresses; keep exact hits
+          if (page.items.some((user) => user.email.toLowerCase() === chunk[index])) existing.add(chunk[index]);
+        });
+      }
+      return existing;
+    },
+    meta: { errorMessage: 'Failed to check for existing users' },
+  });
+
+export const useExistingEmails = (emails: string[], { enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...existingEmailsQuery(emails), enabled });
+
+// Builds the PUT body for an existing user, for edits that only touch a field or two
+export const toUserInput = (user: User): UserInput => ({
+  name: user.name,
+  email: user.email,
+  role_id: user.role_id,
+  active: user.active,
+});
+
+export const useCreateUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createUser,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+};
+
+export const useUpdateUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updateUser,
+    meta: affectsAccess(({ id }: UserInput & { id: number }) => ({ userIds: [id] })),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+};
+
+export const useDeleteUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteUser,
+    // Refetching the deleted user's own queries would only produce 404s
+    onSuccess: (_, userId) =>
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.users.all,
+        predicate: (query) => query.queryKey[2] !== userId,
+      }),
+  });
+};
+
+// Largest page the backend serves; used when walking every matching user
+const MAX_PAGE_SIZE = 100;
+
+// Every user matching the filters, fetched page by page. Backs "select all
+// matching" so bulk actions can reach users beyond the current page.
+export const fetchAllMatchingUsers = async (
+  queryClient: QueryClient,
+  filters: Omit<UserListParams, 'page' | 'pageSize'>
+): Promise<User[]> => {
+  const users: User[] = [];
+  for (let page = 1; ; page++) {
+    const result = await queryClient.fetchQuery(usersPageQuery({ ...filters, page, pageSize: MAX_PAGE_SIZE }));
+    users.push(...result.items);
+    if (result.items.length === 0 || users.length >= result.total) return users;
+  }
+};
+
+export type BulkUserAction =
+  | { type: 'activate' }
+  | { type: 'deactivate' }
+  | { type: 'change-role'; roleId: number }
+  | { type: 'delete' };
+
+export interface BulkUserResult {
+  user: User;
+  // null when the change succeeded
+  error: unknown;
+}
+
+const BULK_CONCURRENCY = 5;
+
+// The backend only takes full-body PUTs, so the rest of the body comes from a
+// fresh read rather than a possibly stale table row, to avoid undoing edits
+// made since the list was loaded
+const changeUser = async (userId: number, changes: Partial<UserInput>): Promise<User> => {
+  const current = await getData(`/users/${userId}`, userSchema);
+  return updateUser({ id: userId, ...toUserInput(current), ...changes });
+};
+
+const applyToUser = (action: BulkUserAction, user: User) => {
+  switch (action.type) {
+    case 'activate':
+    case 'deactivate':
+      return changeUser(user.id, { active: action.type === 'activate' });
+    case 'change-role':
+      return changeUser(user.id, { role_id: action.roleId });
+    case 'delete':
+      return deleteUser(user.id);
+  }
+};
+
+// No bulk endpoint either: one request per user, a few at a time, with every
+// user's outcome reported so partial failures can be retried.
+export const applyBulkUserAction = async ({
+  action,
+  users,
+}: {
+  action: BulkUserAction;
+  users: User[];
+}): Promise<BulkUserResult[]> => {
+  const results: BulkUserResult[] = [];
+
+  for (let i = 0; i < users.length; i += BULK_CONCURRENCY) {
+    const chunk = users.slice(i, i + BULK_CONCURRENCY);
+    const settled = await Promise.allSettled(chunk.map((user) => applyToUser(action, user)));
+    settled.forEach((result, index) => {
+      results.push({ user: chunk[index], error: result.status === 'rejected' ? result.reason : null });
+    });
+  }
+
+  return results;
+};
+
+export const useBulkUserAction = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: applyBulkUserAction,
+    meta: affectsAccess(({ users }: { users: User[] }) => ({ userIds: users.map((user) => user.id) })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+};
+
+export interface UserImportResult {
+  input: UserInput;
+  error: unknown;
+}
+
+const IMPORT_CHUNK_SIZE = 10;
+
+// Creates users a chunk at a time, reporting progress after each chunk so a
+// large import can show how far along it is
+export const importUsers = async ({
+  users,
+  onProgress,
+}: {
+  users: UserInput[];
+  onProgress?: (done: number, total: number) => void;
+}): Promise<UserImportResult[]> => {
+  const results: UserImportResult[] = [];
+
+  for (let i = 0; i < users.length; i += IMPORT_CHUNK_SIZE) {
+    const chunk = users.slice(i, i + IMPORT_CHUNK_SIZE);
+    const settled = await Promise.allSettled(chunk.map((input) => createUser(input)));
+    settled.forEach((result, index) => {
+      results.push({ input: chunk[index], error: result.status === 'rejected' ? result.reason : null });
+    });
+    onProgress?.(results.length, users.length);
+  }
+
+  return results;
+};
+
+export const useImportUsers = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: importUsers,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+};
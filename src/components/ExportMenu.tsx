@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast } from '@/lib/api';
+import { ExportFormat, exportFormats, ExportRow, exportRows } from '@/lib/export';
+import { Download } from 'lucide-react';
+
+export interface ExportDataset {
+  label: string;
+  // Base file name, e.g. "users"
+  name: string;
+  // May fetch, e.g. every page of a paginated list
+  getRows: () => ExportRow[] | Promise<ExportRow[]>;
+  disabled?: boolean;
+}
+
+interface ExportMenuProps {
+  datasets: ExportDataset[];
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ datasets }) => {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const runExport = async (dataset: ExportDataset, format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const rows = await dataset.getRows();
+      if (rows.length === 0) {
+        toast({ title: "Nothing to export", description: `${dataset.label} is empty` });
+        return;
+      }
+      exportRows(rows, dataset.name, format);
+    } catch (error) {
+      toast(getErrorToast(error, "Export failed"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          {exporting ? <LoadingSpinner size="sm" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {datasets.map((dataset) => (
+          <DropdownMenuSub key={dataset.name}>
+            <DropdownMenuSubTrigger disabled={dataset.disabled}>{dataset.label}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {exportFormats.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onSelect={() => runExport(dataset, format)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
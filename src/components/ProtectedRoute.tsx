@@ -1,11 +1,12 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import type { PermissionName } from '@/lib/permissions';
 import { LoadingSpinner } from './ui/loading-spinner';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredPermission?: string;
+  requiredPermission?: PermissionName;
   requiredRole?: string;
   requireAdmin?: boolean;
 }
@@ -0,0 +1,91 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimer } from '@/hooks/use-idle-timer';
+import { authChannel } from '@/lib/auth-channel';
+import { ACTIVITY_BROADCAST_INTERVAL_MS, IDLE_TIMEOUT_MS, IDLE_WARNING_MS } from '@/lib/session';
+
+// Session-expired and idle-timeout dialogs for signed-in pages. Both end the
+// session by clearing the user, which makes ProtectedRoute redirect to /login
+// with the current location as `from`, so signing in again returns here.
+export const SessionMonitor: React.FC = () => {
+  const { user, sessionExpired, endExpiredSession, logout } = useAuth();
+  const lastBroadcast = useRef(0);
+  const onIdle = useCallback(() => logout('idle'), [logout]);
+  // Input here keeps other tabs from timing out, throttled to spare the channel
+  const onActivity = useCallback(() => {
+    if (Date.now() - lastBroadcast.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+      lastBroadcast.current = Date.now();
+      authChannel.post({ type: 'activity' });
+    }
+  }, []);
+  const { remainingMs, reset } = useIdleTimer({
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: IDLE_WARNING_MS,
+    enabled: user !== null && !sessionExpired,
+    onTimeout: onIdle,
+    onActivity,
+  });
+
+  useEffect(
+    () =>
+      authChannel.subscribe((event) => {
+        if (event.type === 'activity') reset();
+      }),
+    [reset]
+  );
+
+  const staySignedIn = () => {
+    reset();
+    // Other tabs are counting down too
+    lastBroadcast.current = Date.now();
+    authChannel.post({ type: 'activity' });
+  };
+
+  const secondsLeft = remainingMs === null ? 0 : Math.ceil(remainingMs / 1000);
+
+  return (
+    <>
+      <AlertDialog open={sessionExpired}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Session expired</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your session has ended, so changes can no longer be saved. Sign in again to continue where you left
+              off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={endExpiredSession}>Sign in again</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={remainingMs !== null && !sessionExpired}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will be signed out in {secondsLeft} {secondsLeft === 1 ? 'second' : 'seconds'} due to inactivity.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Progress value={((remainingMs ?? 0) / IDLE_WARNING_MS) * 100} />
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => logout()}>Sign out</AlertDialogCancel>
+            <AlertDialogAction onClick={staySignedIn}>Stay signed in</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { scorePassword } from '@/lib/password-strength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const SEGMENT_COLORS = ['bg-destructive', 'bg-destructive', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  if (!password) return null;
+
+  const { score, label, suggestions } = scorePassword(password);
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn('h-1.5 flex-1 rounded-full', segment <= Math.max(score, 1) ? SEGMENT_COLORS[score] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength: <span className="font-medium text-foreground">{label}</span>
+        {suggestions.length > 0 && ` · ${suggestions[0]}`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { SortState } from '@/hooks/use-table-params';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+export interface DataTableColumn<T> {
+  id: string;
+  header: React.ReactNode;
+  cell: (row: T) => React.ReactNode;
+  // Sortable columns send `id` to the backend as the sort key
+  sortable?: boolean;
+  className?: string;
+}
+
+interface DataTableProps<T> {
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  getRowId: (row: T) => string | number;
+  sort: SortState | null;
+  onSortChange: (sort: SortState | null) => void;
+  isLoading?: boolean;
+  // Refetching in the background: keep the old rows but dim them
+  isFetching?: boolean;
+  emptyState?: React.ReactNode;
+  // Passing both turns on a leading checkbox column; the header box selects
+  // or clears every row on the current page
+  selectedIds?: ReadonlySet<string | number>;
+  onSelectionChange?: (rows: T[], selected: boolean) => void;
+}
+
+// Clicking a new column sorts ascending; clicking the sorted column flips it
+const nextSort = (column: string, current: SortState | null): SortState => {
+  if (current?.column !== column) return { column, direction: 'asc' };
+  return { column, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+};
+
+export function DataTable<T>({
+  columns,
+  rows,
+  getRowId,
+  sort,
+  onSortChange,
+  isLoading = false,
+  isFetching = false,
+  emptyState = 'No results',
+  selectedIds,
+  onSelectionChange,
+}: DataTableProps<T>) {
+  const selectable = selectedIds !== undefined && onSelectionChange !== undefined;
+  const selectedOnPage = selectable ? rows.filter((row) => selectedIds.has(getRowId(row))).length : 0;
+  const pageState =
+    selectedOnPage === 0 ? false : selectedOnPage === rows.length ? true : ('indeterminate' as const);
+  const columnCount = columns.length + (selectable ? 1 : 0);
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {selectable && (
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={pageState}
+                  onCheckedChange={() => onSelectionChange(rows, pageState !== true)}
+                  disabled={isLoading || rows.length === 0}
+                  aria-label="Select all on this page"
+                />
+              </TableHead>
+            )}
+            {columns.map((column) => {
+              const sorted = sort?.column === column.id ? sort.direction : null;
+              const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown;
+
+              return (
+                <TableHead
+                  key={column.id}
+                  className={column.className}
+                  aria-sort={sorted === 'asc' ? 'ascending' : sorted === 'desc' ? 'descending' : undefined}
+                >
+                  {column.sortable ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="-ml-3 h-8"
+                      onClick={() => onSortChange(nextSort(column.id, sort))}
+                    >
+                      {column.header}
+                      <SortIcon className={cn('ml-2 h-4 w-4', !sorted && 'text-muted-foreground/50')} />
+                    </Button>
+                  ) : (
+                    column.header
+                  )}
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody className={cn(isFetching && !isLoading && 'opacity-60 transition-opacity')}>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="h-32">
+                <div className="flex items-center justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center py-8">
+                {emptyState}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow
+                key={getRowId(row)}
+                data-state={selectable && selectedIds.has(getRowId(row)) ? 'selected' : undefined}
+              >
+                {selectable && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(getRowId(row))}
+                      onCheckedChange={(checked) => onSelectionChange([row], checked === true)}
+                      aria-label="Select row"
+                    />
+                  </TableCell>
+                )}
+                {columns.map((column) => (
+                  <TableCell key={column.id} className={column.className}>
+                    {column.cell(row)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { cn } from '@/lib/utils';
+import { Search } from 'lucide-react';
+
+interface DataTableSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  delayMs?: number;
+  className?: string;
+}
+
+// Search box that only reports a value once typing pauses, so each keystroke
+// doesn't become a request
+export const DataTableSearch: React.FC<DataTableSearchProps> = ({
+  value,
+  onChange,
+  placeholder = 'Search...',
+  delayMs = 300,
+  className,
+}) => {
+  const [text, setText] = useState(value);
+  const debounced = useDebouncedValue(text.trim(), delayMs);
+  // Read through refs: only a new debounced value should trigger a search, not
+  // a new `value` (which would echo back a stale debounced one) or `onChange`
+  const valueRef = useRef(value);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    valueRef.current = value;
+    onChangeRef.current = onChange;
+  }, [value, onChange]);
+
+  // Follow external changes such as back/forward navigation
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (debounced !== valueRef.current) onChangeRef.current(debounced);
+  }, [debounced]);
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        placeholder={placeholder}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="w-64 pl-9"
+      />
+    </div>
+  );
+};
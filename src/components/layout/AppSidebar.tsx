@@ -8,7 +8,9 @@ import {
   Settings,
   LogOut,
   Building2,
-  ChevronRight
+  ChevronRight,
+  ListChecks,
+  LucideIcon,
 } from 'lucide-react';
 import {
   Sidebar,
@@ -24,10 +26,11 @@ import {
   useSidebar,
 } from '@/components/ui/sidebar';
 import { useAuth } from '@/contexts/AuthContext';
+import { PermissionName, routeGuards } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 
-const navigationItems = [
+const navigationItems: { title: string; url: string; icon: LucideIcon; permission: PermissionName | null }[] = [
   {
     title: 'Dashboard',
     url: '/',
@@ -38,26 +41,37 @@ const navigationItems = [
     title: 'Users',
     url: '/users',
     icon: Users,
-    permission: 'user.read',
+    permission: routeGuards['/users'],
   },
   {
     title: 'Roles',
     url: '/roles',
     icon: Shield,
-    permission: 'role.read',
+    permission: routeGuards['/roles'],
   },
   {
     title: 'Permissions',
     url: '/permissions',
     icon: Key,
-    permission: 'permission.read',
+    permission: routeGuards['/permissions'],
   },
   {
     title: 'Role Permissions',
     url: '/role-permissions',
     icon: Settings,
-    permission: 'permission.read',
+    permission: routeGuards['/role-permissions'],
   },
+  // Developer tooling; not shipped in production builds
+  ...(import.meta.env.DEV
+    ? [
+        {
+          title: 'Permission Registry',
+          url: '/dev/permissions',
+          icon: ListChecks,
+          permission: routeGuards['/dev/permissions'],
+        },
+      ]
+    : []),
 ];
 
 export function AppSidebar() {
@@ -151,7 +165,7 @@ export function AppSidebar() {
           <Button
             variant="ghost"
             size="sm"
-            onClick={logout}
+            onClick={() => logout()}
             className="h-8 w-8 p-0 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
             title="Logout"
           >
@@ -1,11 +1,13 @@
 import React from 'react';
-import { useLocation } from 'react-router-dom';
+import { useLocation, useMatch } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 import { Bell, Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
+import { userQuery } from '@/api/queries';
 
 const routeNames: Record<string, string> = {
   '/': 'Dashboard',
@@ -13,11 +15,21 @@ const routeNames: Record<string, string> = {
   '/roles': 'Roles',
   '/permissions': 'Permissions',
   '/role-permissions': 'Role Permissions',
+  '/dev': 'Developer',
+  '/dev/permissions': 'Permission Registry',
 };
 
 export const DashboardHeader: React.FC = () => {
   const location = useLocation();
   const { user } = useAuth();
+  // On a user's detail page, name the last crumb after them rather than their
+  // id. Shares the page's cache entry, so this doesn't add a request.
+  const userMatch = useMatch('/users/:id');
+  const detailUserId = Number(userMatch?.params.id);
+  const { data: detailUser } = useQuery({
+    ...userQuery(detailUserId),
+    enabled: Number.isInteger(detailUserId),
+  });
   
   const currentRoute = routeNames[location.pathname] || 'Page';
   
@@ -31,7 +43,8 @@ export const DashboardHeader: React.FC = () => {
     return pathnames.map((name, index) => {
       const path = `/${pathnames.slice(0, index + 1).join('/')}`;
       const isLast = index === pathnames.length - 1;
-      const displayName = routeNames[path] || name;
+      const displayName =
+        routeNames[path] || (isLast && userMatch && detailUser ? detailUser.name : name);
       
       return { name: displayName, path, isLast };
     });
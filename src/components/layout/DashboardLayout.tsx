@@ -2,6 +2,7 @@ import React from 'react';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { AppSidebar } from './AppSidebar';
 import { DashboardHeader } from './DashboardHeader';
+import { SessionMonitor } from '@/components/SessionMonitor';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -21,6 +22,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
           </main>
         </div>
       </div>
+      <SessionMonitor />
     </SidebarProvider>
   );
 };
\ No newline at end of file
@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useDeletePermission } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Permission, Role } from '@/lib/api';
+import { getGuardedRoutes } from '@/lib/permissions';
+import { PermissionUsage } from './PermissionUsage';
+import { AlertTriangle } from 'lucide-react';
+
+interface DeletePermissionDialogProps {
+  permission: Permission | null;
+  holders: Role[] | null;
+  holdersLoading?: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const DeletePermissionDialog: React.FC<DeletePermissionDialogProps> = ({
+  permission,
+  holders,
+  holdersLoading = false,
+  onOpenChange,
+}) => {
+  const deletePermission = useDeletePermission();
+  const { toast } = useToast();
+  const inUse = permission !== null && (getGuardedRoutes(permission.name).length > 0 || (holders?.length ?? 0) > 0);
+
+  const confirmDelete = async () => {
+    if (!permission) return;
+
+    try {
+      await deletePermission.mutateAsync(permission.id);
+      toast({
+        title: "Permission deleted",
+        description: `${permission.name} has been deleted`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to delete permission"));
+    }
+  };
+
+  return (
+    <AlertDialog open={permission !== null} onOpenChange={(open) => !deletePermission.isPending && onOpenChange(open)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {permission?.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The permission is removed from every role that holds it. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {permission && (
+          <div className="space-y-4">
+            {inUse && (
+              <div className="flex items-start space-x-2 text-sm text-warning">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>This permission is still in use. Users relying on it will lose access.</span>
+              </div>
+            )}
+            <PermissionUsage permission={permission} holders={holders} isLoading={holdersLoading} />
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deletePermission.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              confirmDelete();
+            }}
+            disabled={deletePermission.isPending || holdersLoading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deletePermission.isPending ? (
+              <LoadingSpinner size="sm" />
+            ) : inUse ? (
+              'Delete anyway'
+            ) : (
+              'Delete permission'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
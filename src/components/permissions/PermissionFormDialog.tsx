@@ -0,0 +1,234 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PermissionInput, useCreatePermission, useUpdatePermission } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Permission, Role } from '@/lib/api';
+import { applyFieldErrors } from '@/lib/form-errors';
+import {
+  COMMON_ACTIONS,
+  getGuardedRoutes,
+  getPermissionCategory,
+  PERMISSION_NAME_PATTERN,
+} from '@/lib/permissions';
+import { AlertTriangle } from 'lucide-react';
+
+interface PermissionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this permission, or create a new one when null
+  permission: Permission | null;
+  // Existing permissions, for the unique-name check and prefix suggestions
+  permissions: Permission[];
+  // Roles holding the permission being edited, when known
+  holders: Role[] | null;
+}
+
+const MAX_DESCRIPTION_LENGTH = 255;
+
+const permissionFormSchema = (permissions: Permission[], editing: Permission | null) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .regex(
+        PERMISSION_NAME_PATTERN,
+        'Use resource.action in lowercase, e.g. report.export (letters, digits and underscores)'
+      )
+      .refine(
+        (name) => !permissions.some((p) => p.id !== editing?.id && p.name === name),
+        'A permission with this name already exists'
+      ),
+    description: z
+      .string()
+      .trim()
+      .min(1, 'Description is required')
+      .max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`),
+  });
+
+type PermissionFormValues = z.infer<ReturnType<typeof permissionFormSchema>>;
+
+const FORM_FIELDS = ['name', 'description'] as const;
+
+export const PermissionFormDialog: React.FC<PermissionFormDialogProps> = ({
+  open,
+  onOpenChange,
+  permission,
+  permissions,
+  holders,
+}) => {
+  const creating = permission === null;
+  const createPermission = useCreatePermission();
+  const updatePermission = useUpdatePermission();
+  const { toast } = useToast();
+  const pending = createPermission.isPending || updatePermission.isPending;
+
+  const form = useForm<PermissionFormValues>({
+    resolver: zodResolver(permissionFormSchema(permissions, permission)),
+    defaultValues: { name: '', description: '' },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      permission ? { name: permission.name, description: permission.description } : { name: '', description: '' }
+    );
+  }, [open, permission, form]);
+
+  const name = form.watch('name') ?? '';
+  const prefixes = [...new Set(permissions.map((p) => getPermissionCategory(p.name)))].sort();
+  const [typedPrefix, typedAction] = name.includes('.') ? name.split('.', 2) : [name, null];
+  const matchingPrefixes = prefixes.filter((prefix) => prefix.startsWith(typedPrefix) && prefix !== typedPrefix);
+  // Actions not yet taken under the typed prefix
+  const takenActions = new Set(
+    permissions.filter((p) => getPermissionCategory(p.name) === typedPrefix).map((p) => p.name.split('.')[1])
+  );
+  const suggestedActions =
+    typedAction !== null && typedPrefix
+      ? COMMON_ACTIONS.filter((action) => !takenActions.has(action) && action.startsWith(typedAction))
+      : [];
+
+  const renaming = permission !== null && name.trim() !== permission.name;
+  const guardedRoutes = permission ? getGuardedRoutes(permission.name) : [];
+
+  const suggest = (value: string) => form.setValue('name', value, { shouldValidate: value.includes('.') });
+
+  const onSubmit = async (values: PermissionFormValues) => {
+    const input: PermissionInput = { name: values.name, description: values.description };
+
+    try {
+      const saved = permission
+        ? await updatePermission.mutateAsync({ id: permission.id, ...input })
+        : await createPermission.mutateAsync(input);
+
+      toast({
+        title: permission ? "Permission updated" : "Permission created",
+        description: `${saved.name} has been ${permission ? 'updated' : 'created'}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyFieldErrors(error, form.setError, FORM_FIELDS)) {
+        toast(getErrorToast(error, permission ? "Failed to update permission" : "Failed to create permission"));
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !pending && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{creating ? 'Add permission' : 'Edit permission'}</DialogTitle>
+          <DialogDescription>
+            {creating
+              ? 'Permissions are named resource.action, e.g. user.read.'
+              : `Update the details of ${permission.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      className="font-mono"
+                      placeholder="resource.action"
+                      autoComplete="off"
+                      disabled={pending}
+                    />
+                  </FormControl>
+                  {(matchingPrefixes.length > 0 || suggestedActions.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs text-muted-foreground">Suggestions:</span>
+                      {typedAction === null
+                        ? matchingPrefixes.map((prefix) => (
+                            <Badge
+                              key={prefix}
+                              variant="outline"
+                              className="cursor-pointer font-mono"
+                              onClick={() => suggest(`${prefix}.`)}
+                            >
+                              {prefix}.
+                            </Badge>
+                          ))
+                        : suggestedActions.map((action) => (
+                            <Badge
+                              key={action}
+                              variant="outline"
+                              className="cursor-pointer font-mono"
+                              onClick={() => suggest(`${typedPrefix}.${action}`)}
+                            >
+                              {typedPrefix}.{action}
+                            </Badge>
+                          ))}
+                    </div>
+                  )}
+                  {renaming && (guardedRoutes.length > 0 || (holders?.length ?? 0) > 0) && (
+                    <FormDescription className="flex items-start space-x-2 text-warning">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>
+                        {guardedRoutes.length > 0 &&
+                          `Pages check for ${permission.name} by name (${guardedRoutes.join(', ')}); renaming it locks everyone out of them. `}
+                        {(holders?.length ?? 0) > 0 && `Held by ${holders.map((role) => role.name).join(', ')}.`}
+                      </span>
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} disabled={pending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={pending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pending}>
+                {pending ? <LoadingSpinner size="sm" /> : creating ? 'Create permission' : 'Save changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
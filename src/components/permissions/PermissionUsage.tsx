@@ -0,0 +1,61 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Permission, Role } from '@/lib/api';
+import { getGuardedRoutes } from '@/lib/permissions';
+import { Route, Shield } from 'lucide-react';
+
+interface PermissionUsageProps {
+  permission: Permission;
+  // Roles holding the permission; null when roles can't be read
+  holders: Role[] | null;
+  isLoading?: boolean;
+}
+
+// Where a permission is in use: roles it is assigned to and routes it guards
+export const PermissionUsage: React.FC<PermissionUsageProps> = ({ permission, holders, isLoading = false }) => {
+  const routes = getGuardedRoutes(permission.name);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2 font-medium">
+          <Shield className="h-4 w-4 text-muted-foreground" />
+          <span>Assigned to roles</span>
+        </div>
+        {isLoading ? (
+          <LoadingSpinner size="sm" />
+        ) : holders === null ? (
+          <p className="text-muted-foreground">You don't have access to view roles.</p>
+        ) : holders.length === 0 ? (
+          <p className="text-muted-foreground">No role holds this permission.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {holders.map((role) => (
+              <Badge key={role.id} variant="secondary">
+                {role.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2 font-medium">
+          <Route className="h-4 w-4 text-muted-foreground" />
+          <span>Required by pages</span>
+        </div>
+        {routes.length === 0 ? (
+          <p className="text-muted-foreground">No page route is guarded by this permission.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {routes.map((path) => (
+              <code key={path} className="bg-muted px-1 py-0.5 rounded">
+                {path}
+              </code>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
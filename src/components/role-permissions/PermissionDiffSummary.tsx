@@ -0,0 +1,74 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Permission } from '@/lib/api';
+import { formatCategory, getCategoryColor, groupPermissionsByCategory } from '@/lib/permissions';
+import { Minus, Plus } from 'lucide-react';
+
+interface PermissionDiffSummaryProps {
+  added: Permission[];
+  removed: Permission[];
+  // Labels for the two columns, e.g. "Unique to Staff" when comparing roles
+  addedLabel?: string;
+  removedLabel?: string;
+}
+
+// Titled list of permissions grouped under category badges
+export const PermissionGroupList: React.FC<{
+  title: string;
+  permissions: Permission[];
+  icon?: React.ReactNode;
+  className?: string;
+}> = ({ title, permissions, icon, className = '' }) => {
+  const grouped = groupPermissionsByCategory(permissions);
+
+  return (
+    <div className="space-y-3">
+      <div className={`flex items-center space-x-2 text-sm font-medium ${className}`}>
+        {icon}
+        <span>
+          {title} ({permissions.length})
+        </span>
+      </div>
+      {permissions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        Object.entries(grouped).map(([category, categoryPermissions]) => (
+          <div key={category} className="space-y-1">
+            <Badge className={getCategoryColor(category)}>{formatCategory(category)}</Badge>
+            <ul className="ml-1 space-y-0.5">
+              {categoryPermissions.map((permission) => (
+                <li key={permission.id} className="text-sm">
+                  <code className="bg-muted px-1 py-0.5 rounded">{permission.name}</code>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export const PermissionDiffSummary: React.FC<PermissionDiffSummaryProps> = ({
+  added,
+  removed,
+  addedLabel = 'Added',
+  removedLabel = 'Removed',
+}) => {
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <PermissionGroupList
+        title={addedLabel}
+        permissions={added}
+        icon={<Plus className="h-4 w-4" />}
+        className="text-success"
+      />
+      <PermissionGroupList
+        title={removedLabel}
+        permissions={removed}
+        icon={<Minus className="h-4 w-4" />}
+        className="text-destructive"
+      />
+    </div>
+  );
+};
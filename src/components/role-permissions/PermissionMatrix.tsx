@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Permission, Role } from '@/lib/api';
+import { formatCategory, getCategoryColor, groupPermissionsByCategory } from '@/lib/permissions';
+import {
+  RolePermissionChanges,
+  useApplyBulkRolePermissionChanges,
+  usePendingToggles,
+  useRoleAssignments,
+  useTogglePermission,
+} from '@/api/queries';
+import { Search } from 'lucide-react';
+
+interface PermissionMatrixProps {
+  roles: Role[];
+  permissions: Permission[];
+  canAssign: boolean;
+}
+
+// A bulk change waiting for the admin to confirm it
+interface BulkChange {
+  title: string;
+  description: string;
+  changes: RolePermissionChanges[];
+}
+
+const ALL_CATEGORIES = 'all';
+const NO_BASELINE = 'none';
+
+export const PermissionMatrix: React.FC<PermissionMatrixProps> = ({ roles, permissions, canAssign }) => {
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [baselineRole, setBaselineRole] = useState(NO_BASELINE);
+  const [bulkChange, setBulkChange] = useState<BulkChange | null>(null);
+  const { toast } = useToast();
+
+  const { assignments, isLoading } = useRoleAssignments(roles.map((role) => role.id));
+  const togglePermission = useTogglePermission();
+  const applyBulk = useApplyBulkRolePermissionChanges();
+  const applyingBulk = applyBulk.isPending;
+  const pendingToggles = usePendingToggles();
+
+  const allCategories = Object.keys(groupPermissionsByCategory(permissions));
+  const visiblePermissions = permissions.filter((permission) =>
+    (category === ALL_CATEGORIES || permission.name.startsWith(`${category}.`)) &&
+    permission.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+  const groupedPermissions = groupPermissionsByCategory(visiblePermissions);
+  const baselineId = baselineRole === NO_BASELINE ? null : parseInt(baselineRole);
+
+  const isAssigned = (roleId: number, permissionId: number) =>
+    assignments.get(roleId)?.has(permissionId) ?? false;
+
+  const differsFromBaseline = (roleId: number, permissionId: number) =>
+    baselineId !== null &&
+    roleId !== baselineId &&
+    isAssigned(roleId, permissionId) !== isAssigned(baselineId, permissionId);
+
+  const toggleCell = (role: Role, permission: Permission) => {
+    const assign = !isAssigned(role.id, permission.id);
+    togglePermission.mutateAsync({ role, permission, assign }).catch((error) => {
+      toast(getErrorToast(error, `Failed to update ${permission.name} for ${role.name}`));
+    });
+  };
+
+  // Row toggle: grant the permission to every role, or revoke it from all if they all have it
+  const requestRowToggle = (permission: Permission) => {
+    const grant = !roles.every((role) => isAssigned(role.id, permission.id));
+    const affected = roles.filter((role) => isAssigned(role.id, permission.id) !== grant);
+
+    setBulkChange({
+      title: `${grant ? 'Grant' : 'Revoke'} ${permission.name}`,
+      description: `${grant ? 'Grant' : 'Revoke'} ${permission.name} ${grant ? 'to' : 'from'} ${affected.length} ${
+        affected.length === 1 ? 'role' : 'roles'
+      }: ${affected.map((role) => role.name).join(', ')}.`,
+      changes: affected.map((role) => ({
+        roleId: role.id,
+        add: grant ? [permission.id] : [],
+        remove: grant ? [] : [permission.id],
+      })),
+    });
+  };
+
+  // Column toggle: applies to the permissions currently visible under the filters
+  const requestColumnToggle = (role: Role) => {
+    const grant = !visiblePermissions.every((permission) => isAssigned(role.id, permission.id));
+    const affected = visiblePermissions.filter((permission) => isAssigned(role.id, permission.id) !== grant);
+    const ids = affected.map((permission) => permission.id);
+
+    setBulkChange({
+      title: `${grant ? 'Grant' : 'Revoke'} ${affected.length} permissions`,
+      description: `${grant ? 'Grant' : 'Revoke'} ${affected.length} ${
+        affected.length === 1 ? 'permission' : 'permissions'
+      } ${grant ? 'to' : 'from'} ${role.name}.`,
+      changes: [{ roleId: role.id, add: grant ? ids : [], remove: grant ? [] : ids }],
+    });
+  };
+
+  const applyBulkChange = async () => {
+    if (!bulkChange) return;
+
+    try {
+      const { failed } = await applyBulk.mutateAsync(bulkChange.changes);
+
+      if (failed.length > 0) {
+        toast({
+          ...getErrorToast(failed[0].error),
+          title: `${failed.length} changes failed`,
+        });
+      } else {
+        toast({ title: "Permissions updated", description: bulkChange.description });
+      }
+    } finally {
+      setBulkChange(null);
+    }
+  };
+
+  const rowState = (permission: Permission): boolean | 'indeterminate' => {
+    const count = roles.filter((role) => isAssigned(role.id, permission.id)).length;
+    if (count === 0) return false;
+    return count === roles.length ? true : 'indeterminate';
+  };
+
+  const columnState = (role: Role): boolean | 'indeterminate' => {
+    const count = visiblePermissions.filter((permission) => isAssigned(role.id, permission.id)).length;
+    if (count === 0) return false;
+    return count === visiblePermissions.length ? true : 'indeterminate';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Filter permissions..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-56 pl-9"
+          />
+        </div>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+            {allCategories.map((name) => (
+              <SelectItem key={name} value={name}>
+                {formatCategory(name)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={baselineRole} onValueChange={setBaselineRole}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BASELINE}>No baseline</SelectItem>
+            {roles.map((role) => (
+              <SelectItem key={role.id} value={role.id.toString()}>
+                Baseline: {role.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {baselineId !== null && (
+          <span className="text-xs text-muted-foreground">
+            Highlighted cells differ from the baseline role
+          </span>
+        )}
+      </div>
+
+      <div className="rounded-md border max-h-[70vh] overflow-auto">
+        <table className="w-full caption-bottom text-sm">
+          <thead className="sticky top-0 z-20 bg-background">
+            <tr className="border-b">
+              <th className="sticky left-0 z-30 bg-background h-12 px-4 text-left align-middle font-medium text-muted-foreground min-w-[240px]">
+                Permission
+              </th>
+              {roles.map((role) => (
+                <th
+                  key={role.id}
+                  className={`h-12 px-3 text-center align-middle font-medium min-w-[110px] ${
+                    role.id === baselineId ? 'bg-muted' : ''
+                  }`}
+                >
+                  <div className="flex flex-col items-center gap-1 py-2">
+                    <span className="whitespace-nowrap">{role.name}</span>
+                    {!role.active && <Badge variant="secondary" className="text-[10px]">Inactive</Badge>}
+                    <Checkbox
+                      aria-label={`Toggle all visible permissions for ${role.name}`}
+                      checked={columnState(role)}
+                      onCheckedChange={() => requestColumnToggle(role)}
+                      disabled={!canAssign || visiblePermissions.length === 0}
+                    />
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(groupedPermissions).map(([categoryName, categoryPermissions]) => (
+              <React.Fragment key={categoryName}>
+                <tr className="border-b bg-muted/50">
+                  <td className="sticky left-0 z-10 bg-muted px-4 py-2">
+                    <Badge className={getCategoryColor(categoryName)}>
+                      {formatCategory(categoryName)}
+                    </Badge>
+                  </td>
+                  <td colSpan={roles.length} />
+                </tr>
+                {categoryPermissions.map((permission) => (
+                  <tr key={permission.id} className="border-b hover:bg-muted/30">
+                    <td className="sticky left-0 z-10 bg-background px-4 py-2">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          aria-label={`Toggle ${permission.name} for all roles`}
+                          checked={rowState(permission)}
+                          onCheckedChange={() => requestRowToggle(permission)}
+                          disabled={!canAssign}
+                        />
+                        <div className="min-w-0">
+                          <div className="font-medium">{permission.name}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {permission.description}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    {roles.map((role) => (
+                      <td
+                        key={role.id}
+                        className={`px-3 py-2 text-center ${
+                          differsFromBaseline(role.id, permission.id) ? 'bg-warning/20' : ''
+                        } ${role.id === baselineId ? 'bg-muted' : ''}`}
+                      >
+                        <Checkbox
+                          aria-label={`${permission.name} for ${role.name}`}
+                          checked={isAssigned(role.id, permission.id)}
+                          onCheckedChange={() => toggleCell(role, permission)}
+                          disabled={!canAssign}
+                          className={pendingToggles.has(`${role.id}:${permission.id}`) ? 'opacity-50' : ''}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+            {visiblePermissions.length === 0 && (
+              <tr>
+                <td colSpan={roles.length + 1} className="text-center py-8 text-muted-foreground">
+                  No permissions match the current filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <AlertDialog open={bulkChange !== null} onOpenChange={(open) => !open && !applyingBulk && setBulkChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{bulkChange?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{bulkChange?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={applyingBulk}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                applyBulkChange();
+              }}
+              disabled={applyingBulk}
+            >
+              {applyingBulk ? <LoadingSpinner size="sm" /> : 'Apply'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
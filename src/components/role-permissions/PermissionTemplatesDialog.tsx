@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { PermissionDiffSummary } from './PermissionDiffSummary';
+import { useApplyRolePermissionChanges } from '@/api/queries';
+import { usePermissionTemplates } from '@/hooks/use-permission-templates';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Permission, Role } from '@/lib/api';
+import { PermissionTemplate, resolveTemplate } from '@/lib/permission-templates';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+
+interface PermissionTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: Role;
+  permissions: Permission[];
+  // Permission ids the role currently holds
+  assigned: Set<number>;
+}
+
+export const PermissionTemplatesDialog: React.FC<PermissionTemplatesDialogProps> = ({
+  open,
+  onOpenChange,
+  role,
+  permissions,
+  assigned,
+}) => {
+  const { templates, addTemplate, removeTemplate } = usePermissionTemplates();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Replace: make the role match the template exactly. Otherwise only add.
+  const [replace, setReplace] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const applyChanges = useApplyRolePermissionChanges();
+  const { toast } = useToast();
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+  const { resolved, unknown } = selected
+    ? resolveTemplate(selected, permissions)
+    : { resolved: [], unknown: [] };
+  const templateIds = new Set(resolved.map((permission) => permission.id));
+  const added = resolved.filter((permission) => !assigned.has(permission.id));
+  const removed = replace
+    ? permissions.filter((permission) => assigned.has(permission.id) && !templateIds.has(permission.id))
+    : [];
+
+  const applyTemplate = async () => {
+    if (!selected) return;
+
+    try {
+      const { failed } = await applyChanges.mutateAsync({
+        roleId: role.id,
+        add: added.map((permission) => permission.id),
+        remove: removed.map((permission) => permission.id),
+      });
+
+      if (failed.length > 0) {
+        toast({
+          ...getErrorToast(failed[0].error),
+          title: `${failed.length} of ${added.length + removed.length} changes failed`,
+        });
+      } else {
+        toast({
+          title: "Template applied",
+          description: `${selected.name} applied to ${role.name}`,
+        });
+        onOpenChange(false);
+      }
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to apply template"));
+    }
+  };
+
+  const saveTemplate = () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    addTemplate({
+      name,
+      description: newDescription.trim(),
+      permissions: permissions
+        .filter((permission) => assigned.has(permission.id))
+        .map((permission) => permission.name),
+    });
+    toast({
+      title: "Template saved",
+      description: `${name} saved with ${assigned.size} permissions from ${role.name}`,
+    });
+    setNewName('');
+    setNewDescription('');
+  };
+
+  const deleteTemplate = (template: PermissionTemplate) => {
+    removeTemplate(template.id);
+    if (selectedId === template.id) setSelectedId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Permission templates</DialogTitle>
+          <DialogDescription>
+            Apply a predefined set of permissions to {role.name}, or save its current permissions as a template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="apply">
+          <TabsList>
+            <TabsTrigger value="apply">Apply template</TabsTrigger>
+            <TabsTrigger value="save">Save as template</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="apply" className="space-y-4">
+            <div className="grid gap-2 md:grid-cols-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => setSelectedId(template.id)}
+                  onKeyDown={(e) => e.key === 'Enter' && setSelectedId(template.id)}
+                  className={`flex items-start justify-between p-3 border rounded-lg cursor-pointer transition-colors hover:bg-muted/50 ${
+                    template.id === selectedId ? 'border-primary bg-primary/5' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-sm">{template.name}</span>
+                      {template.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {template.permissions.length} permissions
+                    </p>
+                  </div>
+                  {!template.builtIn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteTemplate(template);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete template</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Preview for {role.name}</h4>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="template-replace" checked={replace} onCheckedChange={setReplace} />
+                    <Label htmlFor="template-replace" className="text-sm">
+                      Remove permissions not in template
+                    </Label>
+                  </div>
+                </div>
+                {unknown.length > 0 && (
+                  <div className="flex items-start space-x-2 text-sm text-warning">
+                    <AlertTriangle className="h-4 w-4 mt-0.5" />
+                    <span>
+                      Not found on this server and will be skipped: {unknown.join(', ')}
+                    </span>
+                  </div>
+                )}
+                {added.length === 0 && removed.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {role.name} already matches this template.
+                  </p>
+                ) : (
+                  <PermissionDiffSummary added={added} removed={removed} />
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applyChanges.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={applyTemplate}
+                disabled={!selected || applyChanges.isPending || (added.length === 0 && removed.length === 0)}
+              >
+                {applyChanges.isPending ? <LoadingSpinner size="sm" /> : 'Apply template'}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="save" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input
+                id="template-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Department coordinator"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              The template will contain the {assigned.size} permissions {role.name} currently holds.
+            </p>
+            <DialogFooter>
+              <Button onClick={saveTemplate} disabled={!newName.trim()}>
+                Save template
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { fetchRbacSnapshot, fetchRoleHolderCount, useApplyRbacChanges } from '@/api/queries';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast } from '@/lib/api';
+import {
+  describeChange,
+  diffBundle,
+  getChangeBlock,
+  isRemoval,
+  parseBundle,
+  RbacBundle,
+  RbacChange,
+  RbacChangeKind,
+  RbacSnapshot,
+  retiredRole,
+} from '@/lib/rbac-bundle';
+import { CheckCircle2, FileJson, Minus, Pencil, Plus, XCircle } from 'lucide-react';
+
+interface RbacBundleImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const groups: { title: string; kinds: RbacChangeKind[] }[] = [
+  { title: 'Permissions', kinds: ['create-permission', 'update-permission', 'delete-permission'] },
+  { title: 'Roles', kinds: ['create-role', 'update-role', 'delete-role'] },
+  { title: 'Assignments', kinds: ['assign', 'revoke'] },
+];
+
+const changeIcon = (change: RbacChange) => {
+  if (isRemoval(change)) return <Minus className="h-4 w-4 text-destructive" />;
+  if (change.kind === 'update-permission' || change.kind === 'update-role') {
+    return <Pencil className="h-4 w-4 text-warning" />;
+  }
+  return <Plus className="h-4 w-4 text-success" />;
+};
+
+export const RbacBundleImportDialog: React.FC<RbacBundleImportDialogProps> = ({ open, onOpenChange }) => {
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuth();
+  const applyChanges = useApplyRbacChanges();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [bundle, setBundle] = useState<RbacBundle | null>(null);
+  const [live, setLive] = useState<RbacSnapshot | null>(null);
+  const [changes, setChanges] = useState<RbacChange[]>([]);
+  // Change id -> why it can't be applied
+  const [blocked, setBlocked] = useState<Map<string, string>>(new Map());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<Map<string, unknown> | null>(null);
+
+  const reset = () => {
+    setBundle(null);
+    setLive(null);
+    setChanges([]);
+    setBlocked(new Map());
+    setSelected(new Set());
+    setProgress(0);
+    setResults(null);
+  };
+
+  const close = (next: boolean) => {
+    if (applyChanges.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const parsed = parseBundle(await file.text());
+      const snapshot = await fetchRbacSnapshot(queryClient);
+      const diff = diffBundle(parsed, snapshot);
+      const retiring = diff.map(retiredRole).filter((role): role is NonNullable<typeof role> => role !== null);
+      const holders = new Map(
+        await Promise.all(retiring.map(async (role) => [role.id, await fetchRoleHolderCount(role.id)] as const))
+      );
+      const blocks = new Map(
+        diff.flatMap((change) => {
+          const reason = getChangeBlock(change, { can: hasPermission, holders });
+          return reason ? [[change.id, reason] as const] : [];
+        })
+      );
+      setBundle(parsed);
+      setLive(snapshot);
+      setChanges(diff);
+      setBlocked(blocks);
+      setSelected(
+        new Set(diff.filter((change) => !isRemoval(change) && !blocks.has(change.id)).map((change) => change.id))
+      );
+    } catch (error) {
+      toast(getErrorToast(error, "Could not read the bundle"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const apply = async () => {
+    if (!live) return;
+
+    setProgress(0);
+    try {
+      const outcome = await applyChanges.mutateAsync({
+        changes: changes.filter((change) => selected.has(change.id)),
+        live,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+      const failed = [...outcome.values()].filter((error) => error !== null).length;
+      setResults(outcome);
+      toast({
+        title: failed > 0 ? `${failed} of ${outcome.size} changes failed` : "Configuration imported",
+        description: failed > 0 ? 'See the list for details' : `${outcome.size} changes applied`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast(getErrorToast(error, "Import failed"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import RBAC configuration</DialogTitle>
+          <DialogDescription>
+            {bundle
+              ? `Bundle exported ${new Date(bundle.exported_at).toLocaleString()}${
+                  bundle.source ? ` from ${bundle.source}` : ''
+                }. Pick the changes to apply to this backend.`
+              : 'Upload a configuration bundle to compare it with this backend.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!bundle ? (
+          <div className="flex flex-col items-center justify-center space-y-4 rounded-lg border border-dashed p-10">
+            <FileJson className="h-10 w-10 text-muted-foreground" />
+            <Input
+              type="file"
+              accept=".json,application/json"
+              className="max-w-xs"
+              disabled={loading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {loading && <LoadingSpinner size="sm" />}
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            This backend already matches the bundle.
+          </p>
+        ) : (
+          <div className="max-h-[55vh] space-y-4 overflow-y-auto pr-1">
+            {groups.map(({ title, kinds }) => {
+              const groupChanges = changes.filter((change) => kinds.includes(change.kind));
+              if (groupChanges.length === 0) return null;
+              const ids = groupChanges.filter((change) => !blocked.has(change.id)).map((change) => change.id);
+              const selectedCount = ids.filter((id) => selected.has(id)).length;
+              // Select-all never picks removals; those have to be ticked one by one
+              const additiveIds = groupChanges
+                .filter((change) => !blocked.has(change.id) && !isRemoval(change))
+                .map((change) => change.id);
+
+              return (
+                <div key={title} className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      checked={
+                        selectedCount === 0
+                          ? false
+                          : additiveIds.length > 0 && additiveIds.every((id) => selected.has(id))
+                            ? true
+                            : 'indeterminate'
+                      }
+                      onCheckedChange={() =>
+                        selectedCount === 0 || additiveIds.some((id) => !selected.has(id))
+                          ? toggle(additiveIds, true)
+                          : toggle(ids, false)
+                      }
+                      disabled={ids.length === 0 || applyChanges.isPending || results !== null}
+                      aria-label={`Select all ${title.toLowerCase()}`}
+                    />
+                    <h4 className="text-sm font-medium">{title}</h4>
+                    <Badge variant="secondary">{groupChanges.length}</Badge>
+                  </div>
+                  <ul className="ml-6 space-y-1">
+                    {groupChanges.map((change) => {
+                      const error = results?.get(change.id);
+                      const blockedBy = blocked.get(change.id);
+                      return (
+                        <li key={change.id} className="flex items-start space-x-2 text-sm">
+                          <Checkbox
+                            checked={selected.has(change.id)}
+                            onCheckedChange={(checked) => toggle([change.id], checked === true)}
+                            disabled={blockedBy !== undefined || applyChanges.isPending || results !== null}
+                            className="mt-0.5"
+                          />
+                          {changeIcon(change)}
+                          <div className="min-w-0 flex-1">
+                            <span className={isRemoval(change) ? 'text-destructive' : undefined}>
+                              {describeChange(change)}
+                            </span>
+                            {blockedBy && <p className="text-muted-foreground">{blockedBy}</p>}
+                            {error !== undefined && error !== null && (
+                              <p className="text-destructive">{getErrorToast(error).description}</p>
+                            )}
+                          </div>
+                          {error === null && <CheckCircle2 className="h-4 w-4 text-success shrink-0" />}
+                          {error !== undefined && error !== null && (
+                            <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {applyChanges.isPending && <Progress value={progress} />}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => close(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => close(false)} disabled={applyChanges.isPending}>
+                Cancel
+              </Button>
+              {bundle && changes.length > 0 && (
+                <Button onClick={apply} disabled={selected.size === 0 || applyChanges.isPending}>
+                  {applyChanges.isPending ? <LoadingSpinner size="sm" /> : `Apply ${selected.size} changes`}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
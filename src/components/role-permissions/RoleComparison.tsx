@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PermissionDiffSummary, PermissionGroupList } from './PermissionDiffSummary';
+import { useApplyRolePermissionChanges, useRoleAssignments } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Permission, Role } from '@/lib/api';
+import { Equal, Plus, X } from 'lucide-react';
+
+interface RoleComparisonProps {
+  roles: Role[];
+  permissions: Permission[];
+  canAssign: boolean;
+}
+
+const MAX_ROLES = 4;
+
+export const RoleComparison: React.FC<RoleComparisonProps> = ({ roles, permissions, canAssign }) => {
+  // First entry is the reference role every other role is compared against
+  const [selected, setSelected] = useState<string[]>(['', '']);
+  const [syncTarget, setSyncTarget] = useState<Role | null>(null);
+  const applyChanges = useApplyRolePermissionChanges();
+  const { toast } = useToast();
+
+  const selectedRoles = selected.flatMap((id) => roles.find((role) => role.id.toString() === id) ?? []);
+  const { assignments, isLoading } = useRoleAssignments(selectedRoles.map((role) => role.id));
+  const [reference, ...others] = selectedRoles;
+
+  const holders = (role: Role) => assignments.get(role.id) ?? new Set<number>();
+  const shared = permissions.filter((permission) =>
+    selectedRoles.every((role) => holders(role).has(permission.id))
+  );
+  const onlyIn = (role: Role, other: Role) =>
+    permissions.filter((permission) => holders(role).has(permission.id) && !holders(other).has(permission.id));
+
+  const setRoleAt = (index: number, roleId: string) => {
+    setSelected((current) => current.map((id, i) => (i === index ? roleId : id)));
+  };
+
+  const removeRoleAt = (index: number) => {
+    setSelected((current) => current.filter((_, i) => i !== index));
+  };
+
+  const matchReference = async () => {
+    if (!reference || !syncTarget) return;
+
+    try {
+      const { failed } = await applyChanges.mutateAsync({
+        roleId: syncTarget.id,
+        add: onlyIn(reference, syncTarget).map((permission) => permission.id),
+        remove: onlyIn(syncTarget, reference).map((permission) => permission.id),
+      });
+
+      if (failed.length > 0) {
+        toast({
+          ...getErrorToast(failed[0].error),
+          title: `${failed.length} changes to ${syncTarget.name} failed`,
+        });
+      } else {
+        toast({
+          title: "Roles synchronized",
+          description: `${syncTarget.name} now has the same permissions as ${reference.name}`,
+        });
+      }
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to update role"));
+    } finally {
+      setSyncTarget(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {selected.map((roleId, index) => (
+          <div key={index} className="flex items-center space-x-1">
+            <Select value={roleId} onValueChange={(value) => setRoleAt(index, value)}>
+              <SelectTrigger className="w-52">
+                <SelectValue placeholder={index === 0 ? 'Reference role' : 'Compare with'} />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem
+                    key={role.id}
+                    value={role.id.toString()}
+                    disabled={selected.includes(role.id.toString()) && role.id.toString() !== roleId}
+                  >
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {index >= 2 && (
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRoleAt(index)}>
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove role</span>
+              </Button>
+            )}
+          </div>
+        ))}
+        {selected.length < MAX_ROLES && (
+          <Button variant="outline" size="sm" onClick={() => setSelected((current) => [...current, ''])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add role
+          </Button>
+        )}
+      </div>
+
+      {selectedRoles.length < 2 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Pick at least two roles to compare their permissions
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Shared</CardTitle>
+              <CardDescription>
+                Permissions held by {selectedRoles.map((role) => role.name).join(', ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PermissionGroupList title="Held by all" permissions={shared} />
+            </CardContent>
+          </Card>
+
+          {others.map((other) => {
+            const onlyReference = onlyIn(reference, other);
+            const onlyOther = onlyIn(other, reference);
+            const identical = onlyReference.length === 0 && onlyOther.length === 0;
+
+            return (
+              <Card key={other.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-base">
+                        {reference.name} vs {other.name}
+                      </CardTitle>
+                      <CardDescription>
+                        {identical
+                          ? 'These roles have identical permissions'
+                          : `${onlyReference.length + onlyOther.length} differences`}
+                      </CardDescription>
+                    </div>
+                    {canAssign && !identical && (
+                      <Button variant="outline" onClick={() => setSyncTarget(other)}>
+                        <Equal className="h-4 w-4 mr-2" />
+                        Make {other.name} match {reference.name}
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                {!identical && (
+                  <CardContent>
+                    <PermissionDiffSummary
+                      added={onlyReference}
+                      removed={onlyOther}
+                      addedLabel={`Only in ${reference.name}`}
+                      removedLabel={`Only in ${other.name}`}
+                    />
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+        </>
+      )}
+
+      <AlertDialog open={syncTarget !== null} onOpenChange={(open) => !open && !applyChanges.isPending && setSyncTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Make {syncTarget?.name} match {reference?.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {syncTarget && reference &&
+                `${syncTarget.name} will gain ${onlyIn(reference, syncTarget).length} and lose ${
+                  onlyIn(syncTarget, reference).length
+                } permissions. Users holding ${syncTarget.name} are affected immediately.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={applyChanges.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                matchReference();
+              }}
+              disabled={applyChanges.isPending}
+            >
+              {applyChanges.isPending ? <LoadingSpinner size="sm" /> : 'Apply'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
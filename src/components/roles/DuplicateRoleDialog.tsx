@@ -0,0 +1,146 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useDuplicateRole } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Role } from '@/lib/api';
+import { isReservedRoleName, RESERVED_ROLE_NAME_MESSAGE } from '@/lib/roles';
+
+interface DuplicateRoleDialogProps {
+  role: Role | null;
+  roles: Role[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export const DuplicateRoleDialog: React.FC<DuplicateRoleDialogProps> = ({ role, roles, onOpenChange }) => {
+  const duplicateRole = useDuplicateRole();
+  const { toast } = useToast();
+
+  const schema = z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .refine(
+        (name) => !roles.some((r) => r.name.toLowerCase() === name.toLowerCase()),
+        'A role with this name already exists'
+      )
+      .refine((name) => !isReservedRoleName(name), RESERVED_ROLE_NAME_MESSAGE),
+    description: z.string().trim(),
+  });
+
+  const form = useForm<z.infer<typeof schema>>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: '', description: '' },
+  });
+
+  useEffect(() => {
+    if (role) {
+      form.reset({ name: `Copy of ${role.name}`, description: role.description });
+    }
+  }, [role, form]);
+
+  const onSubmit = async (values: z.infer<typeof schema>) => {
+    if (!role) return;
+
+    try {
+      const { role: created, copied, failed } = await duplicateRole.mutateAsync({
+        source: role,
+        name: values.name,
+        description: values.description,
+      });
+
+      if (failed.length > 0) {
+        toast({
+          ...getErrorToast(failed[0].error),
+          title: `${created.name} created, but ${failed.length} permissions were not copied`,
+        });
+      } else {
+        toast({
+          title: "Role duplicated",
+          description: `${created.name} created with ${copied} permissions from ${role.name}`,
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to duplicate role"));
+    }
+  };
+
+  return (
+    <Dialog open={role !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate role</DialogTitle>
+          <DialogDescription>
+            Creates a new role with the same permissions as {role?.name}.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={duplicateRole.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} disabled={duplicateRole.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={duplicateRole.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={duplicateRole.isPending}>
+                {duplicateRole.isPending ? <LoadingSpinner size="sm" /> : 'Duplicate'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
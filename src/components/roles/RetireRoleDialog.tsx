@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RoleReassignmentError, useRetireRole, useUsers } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Role } from '@/lib/api';
+import { AlertTriangle } from 'lucide-react';
+
+export type RetireRoleMode = 'delete' | 'deactivate';
+
+interface RetireRoleDialogProps {
+  role: Role | null;
+  mode: RetireRoleMode;
+  roles: Role[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Users listed by name before the rest are summarised as a count
+const MAX_LISTED_USERS = 10;
+
+export const RetireRoleDialog: React.FC<RetireRoleDialogProps> = ({ role, mode, roles, onOpenChange }) => {
+  const open = role !== null;
+  const { data: users = [], isLoading: usersLoading, isError: usersError } = useUsers({ enabled: open });
+  const retireRole = useRetireRole();
+  const { toast } = useToast();
+  const [reassignTo, setReassignTo] = useState('');
+
+  useEffect(() => {
+    if (open) setReassignTo('');
+  }, [open, role]);
+
+  const holders = role ? users.filter((user) => user.role_id === role.id) : [];
+  const targets = roles.filter((r) => r.active && r.id !== role?.id);
+  const needsTarget = holders.length > 0;
+  const verb = mode === 'delete' ? 'Delete' : 'Deactivate';
+
+  const confirm = async () => {
+    if (!role) return;
+
+    try {
+      await retireRole.mutateAsync({
+        role,
+        mode,
+        users: holders,
+        reassignTo: needsTarget ? parseInt(reassignTo) : null,
+      });
+      const target = targets.find((r) => r.id.toString() === reassignTo);
+      toast({
+        title: mode === 'delete' ? "Role deleted" : "Role deactivated",
+        description:
+          needsTarget && target
+            ? `${role.name} has been ${mode === 'delete' ? 'deleted' : 'deactivated'}; ${holders.length} users moved to ${target.name}`
+            : `${role.name} has been ${mode === 'delete' ? 'deleted' : 'deactivated'}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof RoleReassignmentError) {
+        toast({
+          ...getErrorToast(error.failed[0].error),
+          title: `${error.failed.length} users could not be reassigned; ${role.name} was not ${
+            mode === 'delete' ? 'deleted' : 'deactivated'
+          }`,
+        });
+      } else {
+        toast(getErrorToast(error, mode === 'delete' ? "Failed to delete role" : "Failed to deactivate role"));
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !retireRole.isPending && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {verb} {role?.name}?
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'delete'
+              ? 'The role and its permission assignments are removed permanently.'
+              : 'The role stays configured but can no longer be given to users.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {usersLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : usersError ? (
+          <p className="text-sm text-destructive">
+            Could not load users, so it is unknown who holds this role. Try again later.
+          </p>
+        ) : needsTarget ? (
+          <div className="space-y-4">
+            <div className="flex items-start space-x-2 text-sm text-warning">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {holders.length} {holders.length === 1 ? 'user holds' : 'users hold'} this role and must be moved
+                to another role first.
+              </span>
+            </div>
+            <ul className="max-h-40 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+              {holders.slice(0, MAX_LISTED_USERS).map((user) => (
+                <li key={user.id}>
+                  {user.name} <span className="text-muted-foreground">({user.email})</span>
+                </li>
+              ))}
+              {holders.length > MAX_LISTED_USERS && (
+                <li className="text-muted-foreground">and {holders.length - MAX_LISTED_USERS} more</li>
+              )}
+            </ul>
+            <div className="space-y-2">
+              <Label>Reassign users to</Label>
+              <Select value={reassignTo} onValueChange={setReassignTo} disabled={retireRole.isPending}>
+                <SelectTrigger>
+                  <SelectValue placeholder={targets.length ? 'Select a role' : 'No other active roles'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((r) => (
+                    <SelectItem key={r.id} value={r.id.toString()}>
+                      {r.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No users currently hold this role.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={retireRole.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'delete' ? 'destructive' : 'default'}
+            onClick={confirm}
+            disabled={usersLoading || usersError || (needsTarget && !reassignTo) || retireRole.isPending}
+          >
+            {retireRole.isPending ? (
+              <LoadingSpinner size="sm" />
+            ) : needsTarget ? (
+              `Reassign and ${verb.toLowerCase()}`
+            ) : (
+              `${verb} role`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
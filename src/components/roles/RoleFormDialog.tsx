@@ -0,0 +1,191 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { RoleInput, useCreateRole, useUpdateRole } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Role } from '@/lib/api';
+import { applyFieldErrors } from '@/lib/form-errors';
+import { isProtectedRole, isReservedRoleName, RESERVED_ROLE_NAME_MESSAGE } from '@/lib/roles';
+
+interface RoleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this role, or create a new one when null
+  role: Role | null;
+  // Existing roles, for the unique-name check
+  roles: Role[];
+}
+
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 255;
+
+const roleFormSchema = (roles: Role[], editing: Role | null) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(MAX_NAME_LENGTH, `Name must be at most ${MAX_NAME_LENGTH} characters`)
+      .refine(
+        (name) => !roles.some((r) => r.id !== editing?.id && r.name.toLowerCase() === name.toLowerCase()),
+        'A role with this name already exists'
+      )
+      .refine(
+        (name) => (editing !== null && isProtectedRole(editing)) || !isReservedRoleName(name),
+        RESERVED_ROLE_NAME_MESSAGE
+      ),
+    description: z
+      .string()
+      .trim()
+      .max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`),
+    active: z.boolean(),
+  });
+
+type RoleFormValues = z.infer<ReturnType<typeof roleFormSchema>>;
+
+const FORM_FIELDS = ['name', 'description', 'active'] as const;
+
+export const RoleFormDialog: React.FC<RoleFormDialogProps> = ({ open, onOpenChange, role, roles }) => {
+  const creating = role === null;
+  const locked = role !== null && isProtectedRole(role);
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+  const { toast } = useToast();
+  const pending = createRole.isPending || updateRole.isPending;
+
+  const form = useForm<RoleFormValues>({
+    resolver: zodResolver(roleFormSchema(roles, role)),
+    defaultValues: { name: '', description: '', active: true },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      role
+        ? { name: role.name, description: role.description, active: role.active }
+        : { name: '', description: '', active: true }
+    );
+  }, [open, role, form]);
+
+  const onSubmit = async (values: RoleFormValues) => {
+    const input: RoleInput = {
+      // Built-in roles are matched by name, so theirs never changes
+      name: locked ? role.name : values.name,
+      description: values.description,
+      active: values.active,
+    };
+
+    try {
+      const saved = role
+        ? await updateRole.mutateAsync({ id: role.id, ...input })
+        : await createRole.mutateAsync(input);
+
+      toast({
+        title: role ? "Role updated" : "Role created",
+        description: `${saved.name} has been ${role ? 'updated' : 'created'}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyFieldErrors(error, form.setError, FORM_FIELDS)) {
+        toast(getErrorToast(error, role ? "Failed to update role" : "Failed to create role"));
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !pending && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{creating ? 'Add role' : 'Edit role'}</DialogTitle>
+          <DialogDescription>
+            {creating
+              ? 'Create a new role. Assign its permissions on the Role Permissions page.'
+              : `Update the details of ${role.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={pending || locked} />
+                  </FormControl>
+                  {locked && (
+                    <FormDescription>Built-in role; administrator access depends on its name.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} disabled={pending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {/* Deactivating an existing role goes through the reassignment dialog */}
+            {creating && (
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>Inactive roles cannot be given to users.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} disabled={pending} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={pending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pending}>
+                {pending ? <LoadingSpinner size="sm" /> : creating ? 'Create role' : 'Save changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BulkUserAction, BulkUserResult, useBulkUserAction } from '@/api/queries';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Role, User } from '@/lib/api';
+import { CheckCircle2, Power, PowerOff, Trash2, UserCog, X, XCircle } from 'lucide-react';
+
+interface BulkUserActionsProps {
+  selected: User[];
+  roles: Role[];
+  onClear: () => void;
+  // Called with the users the action succeeded for, so they can be deselected
+  // while failures stay selected for a retry
+  onProcessed: (succeeded: User[]) => void;
+}
+
+interface Plan {
+  action: BulkUserAction;
+  affected: User[];
+  // Users left out, with the reason shown in the confirmation
+  skipped: { user: User; reason: string }[];
+}
+
+const actionLabels: Record<BulkUserAction['type'], string> = {
+  activate: 'Activate',
+  deactivate: 'Deactivate',
+  'change-role': 'Change role',
+  delete: 'Delete',
+};
+
+export const BulkUserActions: React.FC<BulkUserActionsProps> = ({ selected, roles, onClear, onProcessed }) => {
+  const { user: currentUser, hasPermission } = useAuth();
+  const bulkAction = useBulkUserAction();
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [roleId, setRoleId] = useState('');
+  const [results, setResults] = useState<BulkUserResult[] | null>(null);
+
+  // Work out who the action would actually change, leaving out no-ops and
+  // the admin's own account where acting on it would lock them out
+  const planFor = (action: BulkUserAction): Plan => {
+    const skipped: Plan['skipped'] = [];
+    const affected = selected.filter((user) => {
+      const isSelf = user.id === currentUser?.id;
+      let reason: string | null = null;
+
+      if (action.type === 'activate' && user.active) reason = 'Already active';
+      if (action.type === 'deactivate' && !user.active) reason = 'Already inactive';
+      if (action.type === 'change-role' && user.role_id === action.roleId) reason = 'Already has this role';
+      // A new role could drop the permissions needed to finish the batch
+      if (action.type !== 'activate' && isSelf) reason = 'Your own account';
+
+      if (reason) skipped.push({ user, reason });
+      return reason === null;
+    });
+
+    return { action, affected, skipped };
+  };
+
+  const open = (action: BulkUserAction) => {
+    setResults(null);
+    setPlan(planFor(action));
+  };
+
+  const close = () => {
+    if (bulkAction.isPending) return;
+    if (results) {
+      onProcessed(results.filter((result) => result.error === null).map((result) => result.user));
+    }
+    setPlan(null);
+    setResults(null);
+    setRoleId('');
+  };
+
+  const run = async () => {
+    if (!plan) return;
+
+    try {
+      const outcome = await bulkAction.mutateAsync({ action: plan.action, users: plan.affected });
+      const failed = outcome.filter((result) => result.error !== null).length;
+      setResults(outcome);
+      toast({
+        title: failed > 0 ? `${failed} of ${outcome.length} users failed` : `${outcome.length} users updated`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast(getErrorToast(error, "Bulk action failed"));
+    }
+  };
+
+  const action = plan?.action;
+  const targetRole = action?.type === 'change-role' ? roles.find((role) => role.id === action.roleId) : undefined;
+
+  if (selected.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-4 py-2">
+        <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+        {hasPermission('user.update') && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => open({ type: 'activate' })}>
+              <Power className="h-4 w-4 mr-2" />
+              Activate
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => open({ type: 'deactivate' })}>
+              <PowerOff className="h-4 w-4 mr-2" />
+              Deactivate
+            </Button>
+            <Select
+              value={roleId}
+              onValueChange={(value) => {
+                setRoleId(value);
+                open({ type: 'change-role', roleId: Number(value) });
+              }}
+            >
+              <SelectTrigger className="h-9 w-44">
+                <UserCog className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Change role" />
+              </SelectTrigger>
+              <SelectContent>
+                {roles
+                  .filter((role) => role.active)
+                  .map((role) => (
+                    <SelectItem key={role.id} value={role.id.toString()}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        {hasPermission('user.delete') && (
+          <Button variant="outline" size="sm" className="text-destructive" onClick={() => open({ type: 'delete' })}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+          <X className="h-4 w-4 mr-2" />
+          Clear selection
+        </Button>
+      </div>
+
+      <Dialog open={plan !== null} onOpenChange={(next) => !next && close()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {results ? 'Results' : plan && `${actionLabels[plan.action.type]} ${plan.affected.length} users?`}
+            </DialogTitle>
+            <DialogDescription>
+              {results
+                ? `${results.filter((result) => result.error === null).length} succeeded, ${
+                    results.filter((result) => result.error !== null).length
+                  } failed.`
+                : plan?.action.type === 'delete'
+                  ? 'These accounts will be permanently deleted. This action cannot be undone.'
+                  : targetRole
+                    ? `These users will be moved to ${targetRole.name}.`
+                    : 'The following users will be updated.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {plan && (
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <ul className="divide-y">
+                {results
+                  ? results.map(({ user, error }) => (
+                      <li key={user.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{user.name}</div>
+                          {error !== null && (
+                            <div className="text-destructive">{getErrorToast(error).description}</div>
+                          )}
+                        </div>
+                        {error === null ? (
+                          <CheckCircle2 className="h-4 w-4 text-success shrink-0" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                        )}
+                      </li>
+                    ))
+                  : [
+                      ...plan.affected.map((user) => (
+                        <li key={user.id} className="px-3 py-2 text-sm">
+                          <div className="font-medium truncate">{user.name}</div>
+                          <div className="text-muted-foreground truncate">{user.email}</div>
+                        </li>
+                      )),
+                      ...plan.skipped.map(({ user, reason }) => (
+                        <li
+                          key={user.id}
+                          className="flex items-center justify-between px-3 py-2 text-sm text-muted-foreground"
+                        >
+                          <span className="truncate">{user.name}</span>
+                          <Badge variant="secondary">Skipped: {reason}</Badge>
+                        </li>
+                      )),
+                    ]}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <Button onClick={close}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={close} disabled={bulkAction.isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={plan?.action.type === 'delete' ? 'destructive' : 'default'}
+                  onClick={run}
+                  disabled={bulkAction.isPending || plan?.affected.length === 0}
+                >
+                  {bulkAction.isPending ? <LoadingSpinner size="sm" /> : plan && actionLabels[plan.action.type]}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
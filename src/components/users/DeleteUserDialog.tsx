@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useDeleteUser } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, User } from '@/lib/api';
+
+interface DeleteUserDialogProps {
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: (user: User) => void;
+}
+
+export const DeleteUserDialog: React.FC<DeleteUserDialogProps> = ({ user, onOpenChange, onDeleted }) => {
+  const deleteUser = useDeleteUser();
+  const { toast } = useToast();
+
+  const confirmDelete = async () => {
+    if (!user) return;
+
+    try {
+      await deleteUser.mutateAsync(user.id);
+      toast({
+        title: "User deleted",
+        description: `${user.name} has been deleted`,
+      });
+      onOpenChange(false);
+      onDeleted?.(user);
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to delete user"));
+    }
+  };
+
+  return (
+    <AlertDialog open={user !== null} onOpenChange={(open) => !deleteUser.isPending && onOpenChange(open)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {user?.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently removes the account for {user?.email}. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteUser.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              confirmDelete();
+            }}
+            disabled={deleteUser.isPending}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleteUser.isPending ? <LoadingSpinner size="sm" /> : 'Delete user'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
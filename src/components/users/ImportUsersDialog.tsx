@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useExistingEmails, useImportUsers, useRoles, UserImportResult } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast } from '@/lib/api';
+import { downloadFile } from '@/lib/download';
+import {
+  buildErrorReport,
+  ColumnMapping,
+  guessMapping,
+  ImportField,
+  importFields,
+  importEmails,
+  ImportRow,
+  isValidImportRow,
+  ParsedSheet,
+  parseSpreadsheet,
+  requiredImportFields,
+  validateRows,
+  ValidImportRow,
+} from '@/lib/user-import';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet } from 'lucide-react';
+
+interface ImportUsersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const fieldLabels: Record<ImportField, string> = {
+  name: 'Name',
+  email: 'Email',
+  role: 'Role (by name)',
+  password: 'Password',
+};
+
+const UNMAPPED = 'none';
+const ACCEPTED_TYPES = '.csv,.xlsx,.xls';
+const NO_EMAILS = new Set<string>();
+
+export const ImportUsersDialog: React.FC<ImportUsersDialogProps> = ({ open, onOpenChange }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<UserImportResult[] | null>(null);
+  // Rows as validated when the import started. The user list refetches once
+  // the new accounts exist, which would otherwise flag them as duplicates.
+  const [submitted, setSubmitted] = useState<{ valid: ValidImportRow[]; invalid: ImportRow[] } | null>(null);
+  const { data: roles = [] } = useRoles({ enabled: open });
+  const emails = useMemo(() => (sheet && mapping ? importEmails(sheet, mapping) : []), [sheet, mapping]);
+  // Checked against so re-running an import doesn't report every existing
+  // account as a server-side conflict
+  const { data: existingEmails, isLoading: emailsLoading } = useExistingEmails(emails, {
+    enabled: step === 'preview' && emails.length > 0,
+  });
+  const importUsers = useImportUsers();
+  const { toast } = useToast();
+
+  const rows = useMemo<ImportRow[]>(
+    () =>
+      sheet && mapping
+        ? validateRows(sheet, mapping, { roles, existingEmails: existingEmails ?? NO_EMAILS })
+        : [],
+    [sheet, mapping, roles, existingEmails]
+  );
+  const validRows = submitted?.valid ?? rows.filter(isValidImportRow);
+  const invalidRows = submitted?.invalid ?? rows.filter((row) => !isValidImportRow(row));
+  const mappingComplete = mapping !== null && requiredImportFields.every((field) => mapping[field] !== null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setProgress(0);
+    setResults(null);
+    setSubmitted(null);
+  };
+
+  const close = (next: boolean) => {
+    if (importUsers.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: `${file.name} has no data rows`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      toast(getErrorToast(error, "Could not read the file"));
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const submit = async () => {
+    setProgress(0);
+    setSubmitted({ valid: validRows, invalid: invalidRows });
+    try {
+      const outcome = await importUsers.mutateAsync({
+        users: validRows.map((row) => ({
+          name: row.name,
+          email: row.email,
+          role_id: row.roleId,
+          active: true,
+          password: row.password,
+        })),
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+      setResults(outcome);
+      setStep('done');
+    } catch (error) {
+      toast(getErrorToast(error, "Import failed"));
+      setSubmitted(null);
+    }
+  };
+
+  // Results come back in submission order, so index i is validRows[i]
+  const serverFailures = (results ?? []).flatMap((result, index) =>
+    result.error === null ? [] : [{ row: validRows[index], errors: [getErrorToast(result.error).description] }]
+  );
+  const created = (results ?? []).filter((result) => result.error === null).length;
+
+  const downloadErrorReport = () => {
+    const report = buildErrorReport([
+      ...invalidRows.map((row) => ({ row, errors: row.errors })),
+      ...serverFailures,
+    ]);
+    downloadFile(report, `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import users</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel file with one user per row.'}
+            {step === 'map' && `Match the columns in ${fileName} to user fields.`}
+            {step === 'preview' &&
+              `${validRows.length} of ${rows.length} rows are ready to import. Rows with errors will be skipped.`}
+            {step === 'done' && `Finished importing ${fileName}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="flex flex-col items-center justify-center space-y-4 rounded-lg border border-dashed p-10">
+            <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground text-center">
+              The first row must contain column headers. Roles are matched by name.
+            </p>
+            <Label htmlFor="import-file" className="sr-only">
+              File
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept={ACCEPTED_TYPES}
+              className="max-w-xs"
+              disabled={parsing}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {parsing && <LoadingSpinner size="sm" />}
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {importFields.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label>
+                  {fieldLabels[field]}
+                  {requiredImportFields.includes(field) ? ' *' : ' (optional)'}
+                </Label>
+                <Select
+                  value={mapping[field] === null ? UNMAPPED : mapping[field]!.toString()}
+                  onValueChange={(value) =>
+                    setMapping({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                    {sheet.headers.map((header, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && emailsLoading && (
+          <div className="flex items-center justify-center space-x-2 py-10 text-sm text-muted-foreground">
+            <LoadingSpinner size="sm" />
+            <span>Checking for existing accounts...</span>
+          </div>
+        )}
+
+        {step === 'preview' && !emailsLoading && (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2 text-sm">
+              <Badge variant="secondary">{rows.length} rows</Badge>
+              <Badge className="bg-success text-success-foreground">{validRows.length} valid</Badge>
+              {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+            </div>
+            <div className="max-h-[50vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line} className={row.errors.length > 0 ? 'bg-destructive/10' : undefined}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>{row.email}</TableCell>
+                      <TableCell>{row.role}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-success" />
+                        ) : (
+                          <span className="text-sm text-destructive">{row.errors.join('; ')}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {importUsers.isPending && (
+              <div className="space-y-2">
+                <Progress value={progress} />
+                <p className="text-sm text-muted-foreground">Importing... {progress}%</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && results && (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <CheckCircle2 className="h-5 w-5 text-success" />
+              <span>{created} users created</span>
+            </div>
+            {invalidRows.length + serverFailures.length > 0 && (
+              <div className="flex items-start space-x-2 text-sm text-warning">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <span>
+                  {invalidRows.length} rows were skipped during validation and {serverFailures.length} were
+                  rejected by the server. Download the error report to fix and re-import them.
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose another file
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={!mappingComplete}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              {invalidRows.length > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport} disabled={importUsers.isPending}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Error report
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importUsers.isPending}>
+                Back
+              </Button>
+              <Button onClick={submit} disabled={validRows.length === 0 || emailsLoading || importUsers.isPending}>
+                {importUsers.isPending ? <LoadingSpinner size="sm" /> : `Import ${validRows.length} users`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              {invalidRows.length + serverFailures.length > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download error report
+                </Button>
+              )}
+              <Button onClick={() => close(false)}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
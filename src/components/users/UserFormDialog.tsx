@@ -0,0 +1,235 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useCreateUser, useRoles, useUpdateUser, UserInput } from '@/api/queries';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, User } from '@/lib/api';
+import { applyFieldErrors } from '@/lib/form-errors';
+
+interface UserFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this user, or create a new one when null
+  user: User | null;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const userFormSchema = (creating: boolean) =>
+  z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    email: z.string().trim().email('Enter a valid email address'),
+    role_id: z.string().min(1, 'Select a role'),
+    active: z.boolean(),
+    password: creating
+      ? z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      : z
+          .string()
+          .refine(
+            (password) => password === '' || password.length >= MIN_PASSWORD_LENGTH,
+            `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+          ),
+  });
+
+type UserFormValues = z.infer<ReturnType<typeof userFormSchema>>;
+
+const FORM_FIELDS = ['name', 'email', 'role_id', 'active', 'password'] as const;
+
+export const UserFormDialog: React.FC<UserFormDialogProps> = ({ open, onOpenChange, user }) => {
+  const creating = user === null;
+  const { user: currentUser } = useAuth();
+  const { data: roles = [], isLoading: rolesLoading } = useRoles({ enabled: open });
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const { toast } = useToast();
+  const isSelf = user !== null && user.id === currentUser?.id;
+  const pending = createUser.isPending || updateUser.isPending;
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(userFormSchema(creating)),
+    defaultValues: { name: '', email: '', role_id: '', active: true, password: '' },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      user
+        ? {
+            name: user.name,
+            email: user.email,
+            role_id: user.role_id.toString(),
+            active: user.active,
+            password: '',
+          }
+        : { name: '', email: '', role_id: '', active: true, password: '' }
+    );
+  }, [open, user, form]);
+
+  const onSubmit = async (values: UserFormValues) => {
+    const input: UserInput = {
+      name: values.name,
+      email: values.email,
+      role_id: parseInt(values.role_id),
+      active: values.active,
+      ...(values.password ? { password: values.password } : {}),
+    };
+
+    try {
+      const saved = user
+        ? await updateUser.mutateAsync({ id: user.id, ...input })
+        : await createUser.mutateAsync(input);
+
+      toast({
+        title: user ? "User updated" : "User created",
+        description: `${saved.name} has been ${user ? 'updated' : 'created'}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyFieldErrors(error, form.setError, FORM_FIELDS)) {
+        toast(getErrorToast(error, user ? "Failed to update user" : "Failed to create user"));
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !pending && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{creating ? 'Add user' : 'Edit user'}</DialogTitle>
+          <DialogDescription>
+            {creating ? 'Create a new user account.' : `Update the account details for ${user.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={pending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} disabled={pending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={pending || rolesLoading}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={rolesLoading ? 'Loading roles...' : 'Select a role'} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {roles
+                        .filter((role) => role.active || role.id === user?.role_id)
+                        .map((role) => (
+                          <SelectItem key={role.id} value={role.id.toString()}>
+                            {role.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} disabled={pending} />
+                  </FormControl>
+                  {!creating && <FormDescription>Leave blank to keep the current password.</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>
+                      {isSelf ? 'You cannot deactivate your own account.' : 'Inactive users cannot sign in.'}
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={pending || (isSelf && field.value)}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={pending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pending}>
+                {pending ? <LoadingSpinner size="sm" /> : creating ? 'Create user' : 'Save changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,22 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { api } from '@/lib/api';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { api, SessionUser, UnauthenticatedError, userDataSchema } from '@/lib/api';
+import { AccessChange, applyBackendEvent, rolePermissionsQuery } from '@/api/queries';
 import { useToast } from '@/hooks/use-toast';
+import { useBackendEvents } from '@/hooks/use-backend-events';
+import { ADMIN_ROLE_NAMES } from '@/lib/roles';
+import { authChannel } from '@/lib/auth-channel';
+import type { PermissionName } from '@/lib/permissions';
+import {
+  ACCESS_REFRESH_DELAY_MS,
+  BACKEND_EVENTS_URL,
+  SESSION_FOCUS_REVALIDATE_MIN_MS,
+  SESSION_REVALIDATE_INTERVAL_MS,
+  isSessionEndpoint,
+} from '@/lib/session';
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  role_id: number;
-  role: {
-    id: number;
-    name: string;
-    description: string;
-    active: boolean;
-  };
-  active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+type User = SessionUser;
 
 interface AuthContextType {
   user: User | null;
@@ -24,11 +23,19 @@ interface AuthContextType {
   loading: boolean;
   login: (email: string, password: string) => Promise<boolean>;
   register: (name: string, email: string, password: string, roleId: number) => Promise<boolean>;
-  logout: () => Promise<void>;
-  hasPermission: (permission: string) => boolean;
+  // `idle` when signed out by the inactivity timer
+  logout: (reason?: 'user' | 'idle') => Promise<void>;
+  hasPermission: (permission: PermissionName) => boolean;
   hasRole: (roleName: string) => boolean;
   isAdmin: () => boolean;
   refreshPermissions: () => Promise<void>;
+  // Picks up a session started outside this page, e.g. by the OAuth
+  // callback. Resolves to whether a user is now signed in.
+  completeExternalLogin: () => Promise<boolean>;
+  // The backend answered 401 while a user was signed in
+  sessionExpired: boolean;
+  // Drops the expired session so ProtectedRoute sends the user to /login
+  endExpiredSession: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -49,41 +56,65 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [permissions, setPermissions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Read by the 401 listener and timers, which outlive a single render
+  const userRef = useRef<User | null>(null);
+  const lastRevalidated = useRef(0);
+  // Access changes seen since the last refresh; a burst of them (say, several
+  // permission toggles) is handled with one refresh
+  const pendingAccess = useRef<{ session: boolean; timer?: ReturnType<typeof setTimeout> }>({ session: false });
+
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  const fetchPermissions = useCallback(async (roleId: number): Promise<string[]> => {
+    try {
+      // Shares the cache entry RolePermissions uses, but always hits the
+      // backend so guards never run on stale data
+      const rolePermissions = await queryClient.fetchQuery({
+        ...rolePermissionsQuery(roleId),
+        staleTime: 0,
+      });
+      const names = rolePermissions.map((rp) => rp.permission.name);
+      setPermissions(names);
+      return names;
+    } catch (error) {
+      console.error('Failed to fetch permissions:', error);
+      setPermissions([]);
+      return [];
+    }
+  }, [queryClient]);
 
-  const fetchUserData = async () => {
+  // Resolves to whether the backend reported a signed-in user
+  const fetchUserData = useCallback(async (): Promise<boolean> => {
     try {
-      const response = await api.get<{ user: User }>('/userdata');
+      const response = await api.get('/userdata', { schema: userDataSchema });
       if (response.success && response.data?.user) {
         const userData = response.data.user;
         setUser(userData);
+        setSessionExpired(false);
+        lastRevalidated.current = Date.now();
         await fetchPermissions(userData.role_id);
+        return true;
       }
+      return false;
     } catch (error) {
       console.error('Failed to fetch user data:', error);
+      return false;
     } finally {
       setLoading(false);
     }
-  };
-
-  const fetchPermissions = async (roleId: number) => {
-    try {
-      const response = await api.get(`/rolepermissions/role/${roleId}`);
-      if (response.success && Array.isArray(response.data)) {
-        const permissionNames = response.data.map((rp: any) => rp.permission.name);
-        setPermissions(permissionNames);
-      }
-    } catch (error) {
-      console.error('Failed to fetch permissions:', error);
-      setPermissions([]);
-    }
-  };
+  }, [fetchPermissions]);
 
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       const response = await api.post('/login', { email, password });
       if (response.success) {
         await fetchUserData();
+        authChannel.post({ type: 'login' });
         toast({
           title: "Login successful",
           description: "Welcome back to ERP Admin",
@@ -97,10 +128,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         });
         return false;
       }
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Login error",
-        description: error.message || "An error occurred during login",
+        description: (error instanceof Error && error.message) || "An error occurred during login",
         variant: "destructive",
       });
       return false;
@@ -124,31 +155,79 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         });
         return false;
       }
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Registration error",
-        description: error.message || "An error occurred during registration",
+        description: (error instanceof Error && error.message) || "An error occurred during registration",
         variant: "destructive",
       });
       return false;
     }
   };
 
-  const logout = async () => {
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setPermissions([]);
+    setSessionExpired(false);
+    // Cached lists were fetched with this user's permissions
+    queryClient.clear();
+  }, [queryClient]);
+
+  const logout = async (reason: 'user' | 'idle' = 'user') => {
     try {
       await api.get('/logout');
-      setUser(null);
-      setPermissions([]);
-      toast({
-        title: "Logged out",
-        description: "You have been successfully logged out",
-      });
     } catch (error) {
+      // Signed out locally regardless; the cookie may already be gone
       console.error('Logout error:', error);
     }
+    clearSession();
+    authChannel.post({ type: 'logout' });
+    toast(
+      reason === 'idle'
+        ? {
+            title: "Signed out",
+            description: "You were signed out after a period of inactivity",
+          }
+        : {
+            title: "Logged out",
+            description: "You have been successfully logged out",
+          }
+    );
+  };
+
+  const completeExternalLogin = async () => {
+    const signedIn = await fetchUserData();
+    if (signedIn) authChannel.post({ type: 'login' });
+    return signedIn;
   };
 
-  const hasPermission = (permission: string): boolean => {
+  const endExpiredSession = () => {
+    clearSession();
+  };
+
+  // Quietly re-reads /userdata so a session that ended on the backend is
+  // noticed without waiting for the next failing request. A 401 is reported
+  // through the ApiClient listener below.
+  const revalidateSession = useCallback(async (): Promise<{ roleId: number; permissions: string[] } | null> => {
+    if (!userRef.current) return null;
+
+    lastRevalidated.current = Date.now();
+    try {
+      const response = await api.get('/userdata', { schema: userDataSchema, retry: false });
+      if (response.success && response.data?.user) {
+        const userData = response.data.user;
+        setUser(userData);
+        return { roleId: userData.role_id, permissions: await fetchPermissions(userData.role_id) };
+      }
+    } catch (error) {
+      if (!(error instanceof UnauthenticatedError)) {
+        console.error('Failed to revalidate session:', error);
+      }
+    }
+    return null;
+  }, [fetchPermissions]);
+
+  const hasPermission = (permission: PermissionName): boolean => {
     return permissions.includes(permission);
   };
 
@@ -157,18 +236,130 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const isAdmin = (): boolean => {
-    return hasRole('Super Admin') || hasRole('Admin');
+    return ADMIN_ROLE_NAMES.some((roleName) => hasRole(roleName));
   };
 
-  const refreshPermissions = async () => {
-    if (user?.role_id) {
-      await fetchPermissions(user.role_id);
+  // Re-reads this user's permissions here and hands them to every other tab
+  const refreshPermissions = useCallback(async () => {
+    const roleId = userRef.current?.role_id;
+    if (roleId) {
+      const names = await fetchPermissions(roleId);
+      authChannel.post({ type: 'permissions', roleId, permissions: names });
     }
-  };
+  }, [fetchPermissions]);
+
+  // Called for changes made by this user's own mutations and, through the
+  // backend event stream, by other admins. Only acts if the change reaches
+  // the signed-in user; every tab is then told the new permissions.
+  const handleAccessChange = useCallback((change: AccessChange) => {
+    const current = userRef.current;
+    if (!current) return;
+
+    const userChanged = change.userIds?.includes(current.id) ?? false;
+    const roleChanged = change.roleIds === 'all' || (change.roleIds?.includes(current.role_id) ?? false);
+    if (!userChanged && !roleChanged) return;
+
+    const pending = pendingAccess.current;
+    // The user record itself changed (e.g. a new role): re-read the session
+    pending.session ||= userChanged;
+    clearTimeout(pending.timer);
+    pending.timer = setTimeout(async () => {
+      const session = pending.session;
+      pending.session = false;
+      if (session) {
+        const result = await revalidateSession();
+        if (result) authChannel.post({ type: 'permissions', ...result });
+      } else {
+        await refreshPermissions();
+      }
+    }, ACCESS_REFRESH_DELAY_MS);
+  }, [revalidateSession, refreshPermissions]);
 
   useEffect(() => {
     fetchUserData();
-  }, []);
+  }, [fetchUserData]);
+
+  useEffect(
+    () =>
+      queryClient.getMutationCache().subscribe((event) => {
+        if (event.type !== 'updated' || (event.action.type !== 'success' && event.action.type !== 'error')) return;
+        // Failed batches may still have applied part of their changes
+        const change = event.mutation.meta?.affectsAccess?.(event.mutation.state.variables);
+        if (change) handleAccessChange(change);
+      }),
+    [queryClient, handleAccessChange]
+  );
+
+  useEffect(
+    () =>
+      api.onUnauthenticated((error) => {
+        if (userRef.current && !isSessionEndpoint(error.endpoint)) {
+          setSessionExpired(true);
+        }
+      }),
+    []
+  );
+
+  useEffect(
+    () =>
+      authChannel.subscribe((event) => {
+        switch (event.type) {
+          case 'login':
+            // Also recovers a tab sitting on the session-expired dialog
+            fetchUserData();
+            break;
+          case 'logout':
+            if (userRef.current) {
+              clearSession();
+              toast({
+                title: "Logged out",
+                description: "You were logged out in another tab",
+              });
+            }
+            break;
+          case 'permissions':
+            if (userRef.current?.role_id === event.roleId) {
+              setPermissions(event.permissions);
+            } else {
+              // Our role changed too; pick up the new one
+              revalidateSession();
+            }
+            break;
+        }
+      }),
+    [fetchUserData, clearSession, revalidateSession, toast]
+  );
+
+  const signedIn = user !== null && !sessionExpired;
+
+  useBackendEvents(BACKEND_EVENTS_URL, {
+    enabled: signedIn,
+    onEvent: (event) => handleAccessChange(applyBackendEvent(queryClient, event)),
+    // Whatever happened while disconnected is unknown; re-read everything
+    onResync: () => handleAccessChange({ roleIds: 'all', userIds: userRef.current ? [userRef.current.id] : [] }),
+  });
+
+  useEffect(() => {
+    if (!signedIn) return;
+
+    const onVisible = () => {
+      if (
+        document.visibilityState === 'visible' &&
+        Date.now() - lastRevalidated.current >= SESSION_FOCUS_REVALIDATE_MIN_MS
+      ) {
+        revalidateSession();
+      }
+    };
+    const timer = setInterval(revalidateSession, SESSION_REVALIDATE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisible);
+    window.addEventListener('focus', onVisible);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+      window.removeEventListener('focus', onVisible);
+    };
+  }, [signedIn, revalidateSession]);
 
   const value: AuthContextType = {
     user,
@@ -181,6 +372,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     hasRole,
     isAdmin,
     refreshPermissions,
+    completeExternalLogin,
+    sessionExpired,
+    endExpiredSession,
   };
 
   return (
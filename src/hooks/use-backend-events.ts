@@ -0,0 +1,75 @@
+import { useEffect, useRef } from "react"
+import { BackendEvent, backendEventSchema } from "@/lib/api"
+import { backoffDelay, RetryPolicy } from "@/lib/retry"
+
+// EventSource retries dropped connections itself, but gives up for good on
+// an HTTP error; those are retried here with backoff
+const RECONNECT_POLICY: RetryPolicy = { retries: Infinity, baseDelayMs: 1000, maxDelayMs: 60_000 }
+
+interface BackendEventsOptions {
+  enabled: boolean
+  onEvent: (event: BackendEvent) => void
+  // Connected again after a drop; events sent meanwhile were missed
+  onResync?: () => void
+}
+
+// Subscribes to the backend's server-sent RBAC events at `url`. Messages are
+// JSON matching backendEventSchema; anything else is ignored.
+export function useBackendEvents(url: string | null, { enabled, onEvent, onResync }: BackendEventsOptions) {
+  const onEventRef = useRef(onEvent)
+  const onResyncRef = useRef(onResync)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+    onResyncRef.current = onResync
+  }, [onEvent, onResync])
+
+  useEffect(() => {
+    if (!enabled || !url || typeof EventSource === "undefined") return
+
+    let source: EventSource | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    let attempt = 0
+    let connectedBefore = false
+
+    const connect = () => {
+      source = new EventSource(url, { withCredentials: true })
+
+      source.onopen = () => {
+        attempt = 0
+        if (connectedBefore) onResyncRef.current?.()
+        connectedBefore = true
+      }
+
+      source.onmessage = (message) => {
+        let data: unknown
+        try {
+          data = JSON.parse(message.data)
+        } catch {
+          if (import.meta.env.DEV) console.warn("Ignoring non-JSON backend event:", message.data)
+          return
+        }
+        const event = backendEventSchema.safeParse(data)
+        if (event.success) {
+          onEventRef.current(event.data)
+        } else if (import.meta.env.DEV) {
+          // Newer backends may send event types this build doesn't know yet
+          console.warn("Ignoring unknown backend event:", data)
+        }
+      }
+
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return
+        source = null
+        reconnectTimer = setTimeout(connect, backoffDelay(attempt++, RECONNECT_POLICY))
+      }
+    }
+
+    connect()
+
+    return () => {
+      clearTimeout(reconnectTimer)
+      source?.close()
+    }
+  }, [url, enabled])
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "wheel"] as const
+
+const TICK_MS = 1000
+
+interface IdleTimerOptions {
+  // Inactivity after which onTimeout fires
+  timeoutMs: number
+  // How long before the timeout `remainingMs` starts counting down
+  warningMs: number
+  enabled: boolean
+  onTimeout: () => void
+  // Called on input outside the warning period, e.g. to share it with other tabs
+  onActivity?: () => void
+}
+
+// Tracks user input and counts down once the user has been idle for
+// timeoutMs - warningMs. During the countdown input is ignored; call `reset`
+// to keep the session alive.
+export function useIdleTimer({ timeoutMs, warningMs, enabled, onTimeout, onActivity }: IdleTimerOptions) {
+  const lastActivity = useRef(Date.now())
+  const warning = useRef(false)
+  const onTimeoutRef = useRef(onTimeout)
+  const onActivityRef = useRef(onActivity)
+  // null until the warning period starts
+  const [remainingMs, setRemainingMs] = useState<number | null>(null)
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout
+    onActivityRef.current = onActivity
+  }, [onTimeout, onActivity])
+
+  const reset = useCallback(() => {
+    lastActivity.current = Date.now()
+    warning.current = false
+    setRemainingMs(null)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    reset()
+    const handleActivity = () => {
+      if (warning.current) return
+      lastActivity.current = Date.now()
+      onActivityRef.current?.()
+    }
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+
+    const timer = setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivity.current)
+      if (remaining <= 0) {
+        clearInterval(timer)
+        warning.current = false
+        setRemainingMs(null)
+        onTimeoutRef.current()
+      } else if (remaining <= warningMs) {
+        warning.current = true
+        setRemainingMs(remaining)
+      }
+    }, TICK_MS)
+
+    return () => {
+      clearInterval(timer)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      warning.current = false
+      setRemainingMs(null)
+    }
+  }, [enabled, timeoutMs, warningMs, reset])
+
+  return { remainingMs, reset }
+}
@@ -0,0 +1,38 @@
+import { useCallback, useState } from "react"
+import {
+  builtInTemplates,
+  loadCustomTemplates,
+  PermissionTemplate,
+  saveCustomTemplates,
+} from "@/lib/permission-templates"
+
+// Built-in templates plus the admin's own, persisted in localStorage
+export function usePermissionTemplates() {
+  const [customTemplates, setCustomTemplates] = useState<PermissionTemplate[]>(loadCustomTemplates)
+
+  const update = useCallback((updater: (templates: PermissionTemplate[]) => PermissionTemplate[]) => {
+    setCustomTemplates((current) => {
+      const next = updater(current)
+      saveCustomTemplates(next)
+      return next
+    })
+  }, [])
+
+  const addTemplate = useCallback(
+    (template: Omit<PermissionTemplate, "id" | "builtIn">) => {
+      update((current) => [...current, { ...template, id: `custom:${Date.now()}` }])
+    },
+    [update]
+  )
+
+  const removeTemplate = useCallback(
+    (id: string) => update((current) => current.filter((template) => template.id !== id)),
+    [update]
+  )
+
+  return {
+    templates: [...builtInTemplates, ...customTemplates],
+    addTemplate,
+    removeTemplate,
+  }
+}
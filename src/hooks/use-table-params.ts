@@ -0,0 +1,99 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+
+export type SortDirection = "asc" | "desc"
+
+export interface SortState {
+  column: string
+  direction: SortDirection
+}
+
+export interface TableParams {
+  page: number
+  pageSize: number
+  sort: SortState | null
+  search: string
+  filters: Record<string, string>
+}
+
+// Pass module-level constants for `defaultSort` and `filterKeys`: a new
+// object each render would recompute the params every time
+interface TableParamsOptions {
+  defaultPageSize?: number
+  defaultSort?: SortState | null
+  // Query param names treated as filters, e.g. ["role_id", "active"]
+  filterKeys?: readonly string[]
+}
+
+const NO_FILTERS: readonly string[] = []
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Table state (page, page size, sort, search, filters) lives in the URL so
+// views can be bookmarked, shared and restored with the back button. Any
+// change other than paging sends the user back to page 1.
+export function useTableParams({
+  defaultPageSize = 25,
+  defaultSort = null,
+  filterKeys = NO_FILTERS,
+}: TableParamsOptions = {}) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const params = useMemo<TableParams>(() => {
+    const sortColumn = searchParams.get("sort")
+    const direction = searchParams.get("order") === "desc" ? "desc" : "asc"
+
+    return {
+      page: parsePositiveInt(searchParams.get("page"), 1),
+      pageSize: parsePositiveInt(searchParams.get("pageSize"), defaultPageSize),
+      sort: sortColumn ? { column: sortColumn, direction } : defaultSort,
+      search: searchParams.get("q") ?? "",
+      filters: Object.fromEntries(
+        filterKeys.flatMap((key) => {
+          const value = searchParams.get(key)
+          return value ? [[key, value]] : []
+        })
+      ),
+    }
+  }, [searchParams, defaultPageSize, defaultSort, filterKeys])
+
+  const update = useCallback(
+    (changes: Record<string, string | null>, resetPage = true) => {
+      setSearchParams(
+        (current) => {
+          const next = new URLSearchParams(current)
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === null || value === "") next.delete(key)
+            else next.set(key, value)
+          })
+          if (resetPage) next.delete("page")
+          return next
+        },
+        { replace: true }
+      )
+    },
+    [setSearchParams]
+  )
+
+  const setPage = useCallback(
+    (page: number) => update({ page: page > 1 ? page.toString() : null }, false),
+    [update]
+  )
+  const setPageSize = useCallback(
+    (pageSize: number) => update({ pageSize: pageSize === defaultPageSize ? null : pageSize.toString() }),
+    [update, defaultPageSize]
+  )
+  const setSort = useCallback(
+    (sort: SortState | null) => update({ sort: sort?.column ?? null, order: sort?.direction ?? null }),
+    [update]
+  )
+  const setSearch = useCallback((search: string) => update({ q: search }), [update])
+  const setFilter = useCallback((key: string, value: string | null) => update({ [key]: value }), [update])
+
+  return { ...params, setPage, setPageSize, setSort, setSearch, setFilter }
+}
@@ -0,0 +1,24 @@
+import { toUserInput, useUpdateUser } from "@/api/queries"
+import { useToast } from "@/hooks/use-toast"
+import { getErrorToast, User } from "@/lib/api"
+
+// Flips a user's active flag and reports the outcome as a toast. Shared by
+// the Users list and the user detail page.
+export function useToggleUserActive() {
+  const updateUser = useUpdateUser()
+  const { toast } = useToast()
+
+  const toggleActive = async (user: User) => {
+    try {
+      await updateUser.mutateAsync({ id: user.id, ...toUserInput(user), active: !user.active })
+      toast({
+        title: user.active ? "User deactivated" : "User activated",
+        description: `${user.name} is now ${user.active ? "inactive" : "active"}`,
+      })
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to update user"))
+    }
+  }
+
+  return { toggleActive, isPending: updateUser.isPending }
+}
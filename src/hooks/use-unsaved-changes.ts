@@ -0,0 +1,25 @@
+import { useEffect } from "react"
+import { useBlocker } from "react-router-dom"
+
+// Blocks in-app navigation while `dirty` and asks the browser to confirm
+// reloads or tab closes. Render the returned blocker with UnsavedChangesDialog.
+export function useUnsavedChanges(dirty: boolean) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      dirty && currentLocation.pathname !== nextLocation.pathname
+  )
+
+  useEffect(() => {
+    if (!dirty) return
+
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+      event.returnValue = ""
+    }
+
+    window.addEventListener("beforeunload", onBeforeUnload)
+    return () => window.removeEventListener("beforeunload", onBeforeUnload)
+  }, [dirty])
+
+  return blocker
+}
@@ -0,0 +1,280 @@
+import type { ZodError, ZodIssue } from 'zod';
+
+// Error body as the backend sends it; mirrors ApiResponse but every field is
+// optional because proxies and crashed handlers don't always honour the envelope.
+export interface ApiErrorPayload {
+  success?: boolean;
+  route?: string;
+  message?: string;
+  error?: string;
+  errors?: unknown;
+}
+
+export type FieldErrors = Record<string, string[]>;
+
+interface ApiErrorOptions {
+  status?: number;
+  payload?: ApiErrorPayload;
+  cause?: unknown;
+}
+
+const formatPath = (path: (string | number)[]) =>
+  path.length === 0 ? '(root)' : path.join('.');
+
+// Base class for everything ApiClient throws. `endpoint` is the path we
+// requested, `route` is what the backend reported handling (falls back to endpoint).
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly route: string;
+  readonly status?: number;
+  readonly payload?: ApiErrorPayload;
+  readonly cause?: unknown;
+
+  constructor(endpoint: string, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+    this.route = options.payload?.route || endpoint;
+    this.status = options.status;
+    this.payload = options.payload;
+    this.cause = options.cause;
+  }
+}
+
+// fetch() itself rejected: offline, DNS, CORS, connection reset
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(endpoint, 'Unable to reach the server. Check your connection and try again.', { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(endpoint, `Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class HttpError extends ApiError {
+  declare readonly status: number;
+
+  constructor(endpoint: string, status: number, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, message, { status, payload });
+    this.name = 'HttpError';
+  }
+}
+
+export class UnauthenticatedError extends HttpError {
+  constructor(endpoint: string, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, 401, message, payload);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(endpoint: string, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, 403, message, payload);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(endpoint: string, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, 404, message, payload);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(endpoint: string, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, 409, message, payload);
+    this.name = 'ConflictError';
+  }
+}
+
+// 422 with per-field messages, keyed by the request body field name
+export class FieldValidationError extends HttpError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(endpoint: string, message: string, payload?: ApiErrorPayload) {
+    super(endpoint, 422, message, payload);
+    this.name = 'FieldValidationError';
+    this.fieldErrors = parseFieldErrors(payload?.errors);
+  }
+}
+
+export class RateLimitError extends HttpError {
+  // Milliseconds to wait before retrying, if the server said so
+  readonly retryAfterMs: number | null;
+
+  constructor(endpoint: string, message: string, retryAfterMs: number | null, payload?: ApiErrorPayload) {
+    super(endpoint, 429, message, payload);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends HttpError {
+  // Only sent with 503 in practice, but parsed for any 5xx
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    endpoint: string,
+    status: number,
+    message: string,
+    payload?: ApiErrorPayload,
+    retryAfterMs: number | null = null
+  ) {
+    super(endpoint, status, message, payload);
+    this.name = 'ServerError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Thrown when a response doesn't match the schema the caller expected,
+// i.e. the backend contract drifted from what the frontend was built against.
+export class ApiValidationError extends ApiError {
+  readonly path: (string | number)[];
+  readonly issues: ZodIssue[];
+
+  constructor(endpoint: string, zodError: ZodError, pathPrefix: (string | number)[] = []) {
+    const issues = zodError.issues.map((issue) => ({
+      ...issue,
+      path: [...pathPrefix, ...issue.path],
+    }));
+    const [first] = issues;
+    super(
+      endpoint,
+      `Unexpected response from ${endpoint}: ${formatPath(first.path)} ${first.message.toLowerCase()}`
+    );
+    this.name = 'ApiValidationError';
+    this.path = first.path;
+    this.issues = issues;
+  }
+
+  get fieldPath(): string {
+    return formatPath(this.path);
+  }
+}
+
+// Accepts both `{ field: 'msg' | ['msg'] }` and express-validator style
+// `[{ path | param | field, msg | message }]`.
+export const parseFieldErrors = (errors: unknown): FieldErrors => {
+  const result: FieldErrors = {};
+  const add = (field: unknown, message: unknown) => {
+    if (typeof field !== 'string' || typeof message !== 'string') return;
+    (result[field] ??= []).push(message);
+  };
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => {
+      if (entry && typeof entry === 'object') {
+        const { path, param, field, msg, message } = entry as Record<string, unknown>;
+        add(path ?? param ?? field, msg ?? message);
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, messages]) => {
+      (Array.isArray(messages) ? messages : [messages]).forEach((message) => add(field, message));
+    });
+  }
+
+  return result;
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const createHttpError = (
+  endpoint: string,
+  response: Response,
+  payload?: ApiErrorPayload
+): HttpError => {
+  const { status } = response;
+  const message = payload?.message || payload?.error || `HTTP ${status}: ${response.statusText}`;
+
+  switch (status) {
+    case 401:
+      return new UnauthenticatedError(endpoint, message, payload);
+    case 403:
+      return new ForbiddenError(endpoint, message, payload);
+    case 404:
+      return new NotFoundError(endpoint, message, payload);
+    case 409:
+      return new ConflictError(endpoint, message, payload);
+    case 422:
+      return new FieldValidationError(endpoint, message, payload);
+    case 429:
+      return new RateLimitError(
+        endpoint,
+        payload?.message || 'Rate limit exceeded. Please try again later.',
+        parseRetryAfter(response.headers.get('Retry-After')),
+        payload
+      );
+    default:
+      return status >= 500
+        ? new ServerError(endpoint, status, message, payload, parseRetryAfter(response.headers.get('Retry-After')))
+        : new HttpError(endpoint, status, message, payload);
+  }
+};
+
+// Single place that turns any thrown value into toast props, so every page
+// words the same failure the same way.
+export const getErrorToast = (error: unknown, fallback = 'An unexpected error occurred') => {
+  const toast = (title: string, description: string) => ({
+    title,
+    description,
+    variant: 'destructive' as const,
+  });
+
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : '';
+    return toast('Rate Limit Exceeded', `Please wait a moment before trying again.${wait}`);
+  }
+  if (error instanceof UnauthenticatedError) {
+    return toast('Signed out', 'Your session has ended. Please sign in again.');
+  }
+  if (error instanceof ForbiddenError) {
+    return toast('Access denied', error.message || "You don't have permission to do that.");
+  }
+  if (error instanceof NotFoundError) {
+    return toast('Not found', error.message);
+  }
+  if (error instanceof ConflictError) {
+    return toast('Conflict', error.message);
+  }
+  if (error instanceof FieldValidationError) {
+    const fields = Object.keys(error.fieldErrors);
+    return toast(
+      'Validation failed',
+      fields.length > 0 ? `Check the following fields: ${fields.join(', ')}` : error.message
+    );
+  }
+  if (error instanceof ServerError) {
+    return toast('Server error', 'The server ran into a problem. Please try again later.');
+  }
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return toast('Connection problem', error.message);
+  }
+  if (error instanceof ApiValidationError) {
+    return toast('Unexpected response', error.message);
+  }
+  if (error instanceof Error && error.message) {
+    return toast('Error', error.message);
+  }
+  return toast('Error', fallback);
+};
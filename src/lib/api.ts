@@ -1,6 +1,31 @@
+import { z } from 'zod';
+import {
+  ApiError,
+  ApiErrorPayload,
+  ApiValidationError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  UnauthenticatedError,
+  createHttpError,
+} from './api-errors';
+import { RetryPolicy, backoffDelay, defaultRetryPolicy, isAbortError, sleep } from './retry';
+import {
+  apiResponseSchema,
+  backendEventSchema,
+  permissionSchema,
+  rolePermissionSchema,
+  roleSchema,
+  sessionUserSchema,
+  userHistoryEventSchema,
+  userPageSchema,
+  userSchema,
+} from './schemas';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api' ;
 
-interface ApiResponse<T = any> {
+export interface ApiResponse<T = unknown> {
   success: boolean;
   route: string;
   message: string;
@@ -8,140 +33,252 @@ interface ApiResponse<T = any> {
   error?: string;
 }
 
+export interface RequestOptions<T = unknown> extends RequestInit {
+  // Validates `data` of successful responses; the envelope is always checked
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Overrides the client's retry policy for this call; `false` disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Sent as the Idempotency-Key header; required for POST to be retried
+  idempotencyKey?: string;
+  // Per-attempt timeout in ms; `0` waits indefinitely
+  timeout?: number;
+}
+
+type MethodOptions<T> = Omit<RequestOptions<T>, 'method' | 'body'>;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+type UnauthenticatedListener = (error: UnauthenticatedError) => void;
+
 class ApiClient {
   private baseURL: string;
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
+  private unauthenticatedListeners = new Set<UnauthenticatedListener>();
 
-  constructor(baseURL: string) {
+  constructor(
+    baseURL: string,
+    retryPolicy: RetryPolicy = defaultRetryPolicy,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
     this.baseURL = baseURL;
+    this.retryPolicy = retryPolicy;
+    this.timeoutMs = timeoutMs;
   }
 
   async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions<T> = {}
   ): Promise<ApiResponse<T>> {
-    const url = `${this.baseURL}${endpoint}`;
+    const { schema, retry, idempotencyKey, timeout = this.timeoutMs, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
     
     const config: RequestInit = {
+      credentials: 'include', // Important for session cookies
+      ...init,
       headers: {
         'Content-Type': 'application/json',
-        ...options.headers,
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        ...init.headers,
       },
-      credentials: 'include', // Important for session cookies
-      ...options,
     };
 
-    try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        // Handle rate limiting
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
+    const canRetry = retry !== false && (IDEMPOTENT_METHODS.includes(method) || !!idempotencyKey);
+    const policy = { ...this.retryPolicy, ...(retry || {}) };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(endpoint, config, timeout, schema);
+      } catch (error) {
+        const delay = canRetry && attempt < policy.retries
+          ? this.retryDelay(error, attempt, policy)
+          : null;
+
+        if (delay === null) {
+          if (!isAbortError(error)) {
+            console.error(`API Error (${endpoint}):`, error);
+          }
+          if (error instanceof UnauthenticatedError) {
+            this.unauthenticatedListeners.forEach((listener) => listener(error));
+          }
+          throw error;
         }
-        
-        // Handle other HTTP errors
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
+
+        await sleep(delay, config.signal);
+      }
+    }
+  }
+
+  // How long to wait before retrying, or null if the error isn't retryable
+  private retryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
+      return backoffDelay(attempt, policy);
+    }
+
+    if (error instanceof RateLimitError || (error instanceof ServerError && error.status === 503)) {
+      if (error.retryAfterMs === null) {
+        return backoffDelay(attempt, policy);
       }
+      // Don't keep the user waiting silently on a long server-imposed pause
+      return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+    }
 
-      const data = await response.json();
-      return data;
+    return null;
+  }
+
+  private async send<T>(
+    endpoint: string,
+    config: RequestInit,
+    timeout: number,
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<ApiResponse<T>> {
+    const url = `${this.baseURL}${endpoint}`;
+    const callerSignal = config.signal;
+
+    // Own controller per attempt so a timeout aborts this attempt only,
+    // while still following the caller's signal.
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      forwardAbort();
+    } else {
+      callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    let timedOut = false;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    try {
+      return await this.receive(endpoint, url, { ...config, signal: controller.signal }, schema);
     } catch (error) {
-      console.error(`API Error (${endpoint}):`, error);
-      
-      if (error instanceof Error) {
+      if (timedOut && !callerSignal?.aborted) {
+        throw new TimeoutError(endpoint, timeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private async receive<T>(
+    endpoint: string,
+    url: string,
+    config: RequestInit,
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): Promise<ApiResponse<T>> {
+    let response: Response;
+    try {
+      response = await fetch(url, config);
+    } catch (error) {
+      // Cancelled or timed out: surface the AbortError so send() can classify it
+      if (config.signal?.aborted) {
         throw error;
       }
-      
-      throw new Error('Network error occurred');
+      throw new NetworkError(endpoint, error);
+    }
+    
+    if (!response.ok) {
+      const errorData: ApiErrorPayload | undefined = await response.json().catch(() => undefined);
+      throw createHttpError(endpoint, response, errorData);
     }
+
+    const data = await response.json().catch((error) => {
+      throw new ApiError(endpoint, `Invalid JSON in response from ${endpoint}`, {
+        status: response.status,
+        cause: error,
+      });
+    });
+    return this.validate(endpoint, data, schema);
   }
 
-  async get<T>(endpoint: string): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  private validate<T>(
+    endpoint: string,
+    body: unknown,
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): ApiResponse<T> {
+    const envelope = apiResponseSchema.safeParse(body);
+    if (!envelope.success) {
+      throw new ApiValidationError(endpoint, envelope.error);
+    }
+
+    const response = envelope.data as ApiResponse<T>;
+    if (!schema || !response.success || response.data === undefined) {
+      return response;
+    }
+
+    const payload = schema.safeParse(response.data);
+    if (!payload.success) {
+      throw new ApiValidationError(endpoint, payload.error, ['data']);
+    }
+
+    return { ...response, data: payload.data };
   }
 
-  async post<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
+  // Called whenever the backend rejects a request with 401, e.g. because the
+  // session cookie expired. Returns an unsubscribe function.
+  onUnauthenticated(listener: UnauthenticatedListener): () => void {
+    this.unauthenticatedListeners.add(listener);
+    return () => {
+      this.unauthenticatedListeners.delete(listener);
+    };
+  }
+
+  async get<T>(endpoint: string, options: MethodOptions<T> = {}): Promise<ApiResponse<T>> {
+    return this.request<T>(endpoint, { ...options, method: 'GET' });
+  }
+
+  async post<T>(endpoint: string, data?: unknown, options: MethodOptions<T> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async put<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
+  async put<T>(endpoint: string, data?: unknown, options: MethodOptions<T> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  async delete<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
+  async delete<T>(endpoint: string, data?: unknown, options: MethodOptions<T> = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
+      ...options,
       method: 'DELETE',
       body: data ? JSON.stringify(data) : undefined,
     });
   }
 
-  // OAuth methods
-  getGoogleAuthUrl(): string {
-    return `${this.baseURL}/auth/google`;
+  // OAuth methods. `redirectUri` is where the backend sends the browser back
+  // to once Google is done.
+  getGoogleAuthUrl(redirectUri?: string): string {
+    const query = redirectUri ? `?redirect_uri=${encodeURIComponent(redirectUri)}` : '';
+    return `${this.baseURL}/auth/google${query}`;
   }
 }
 
 export const api = new ApiClient(API_BASE_URL);
 
-// Rate limit handler
-export const handleRateLimit = (error: Error) => {
-  if (error.message.includes('Rate limit')) {
-    return {
-      title: "Rate Limit Exceeded",
-      description: "Please wait a moment before trying again.",
-      variant: "destructive" as const,
-    };
-  }
-  
-  return {
-    title: "Error",
-    description: error.message,
-    variant: "destructive" as const,
-  };
-};
-
 // Types for API responses
-export interface User {
-  id: number;
-  name: string;
-  email: string;
-  role_id: number;
-  role: Role;
-  active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface Role {
-  id: number;
-  name: string;
-  description: string;
-  active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface Permission {
-  id: number;
-  name: string;
-  description: string;
-  created_at: string;
-  updated_at: string;
-}
+export type User = z.infer<typeof userSchema>;
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type UserHistoryEvent = z.infer<typeof userHistoryEventSchema>;
+export type UserPage = z.infer<typeof userPageSchema>;
+export type Role = z.infer<typeof roleSchema>;
+export type Permission = z.infer<typeof permissionSchema>;
+export type RolePermission = z.infer<typeof rolePermissionSchema>;
+export type BackendEvent = z.infer<typeof backendEventSchema>;
 
-export interface RolePermission {
-  id: number;
-  role_id: number;
-  permission_id: number;
-  role: Role;
-  permission: Permission;
-  created_at: string;
-  updated_at: string;
-}
\ No newline at end of file
+export * from './api-errors';
+export { isAbortError } from './retry';
+export * from './schemas';
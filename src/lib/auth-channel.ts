@@ -0,0 +1,65 @@
+// Carries auth changes between open tabs of the app. All tabs share one
+// session cookie, so a login, logout or permission change in one tab applies
+// to every other.
+
+export type AuthEvent =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'permissions'; roleId: number; permissions: string[] }
+  // Input in some tab, so the others don't sign out for inactivity
+  | { type: 'activity' };
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const CHANNEL_NAME = 'erp-admin.auth';
+// Fallback transport: writing this key fires `storage` in every other tab
+const STORAGE_KEY = 'erp-admin.auth-event';
+
+class AuthChannel {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<AuthEventListener>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<AuthEvent>) => this.emit(message.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return;
+        try {
+          this.emit(JSON.parse(event.newValue).event);
+        } catch {
+          // Written by something else; ignore
+        }
+      });
+    }
+  }
+
+  // Delivered to other tabs only, never back to this one
+  post(event: AuthEvent) {
+    if (this.channel) {
+      this.channel.postMessage(event);
+      return;
+    }
+    try {
+      // The timestamp makes repeated identical events still count as a change
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ event, at: Date.now() }));
+    } catch {
+      // Storage unavailable (private mode, quota); other tabs catch up on
+      // their next session revalidation
+    }
+  }
+
+  subscribe(listener: AuthEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: AuthEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+export const authChannel = new AuthChannel();
@@ -0,0 +1,118 @@
+import * as XLSX from 'xlsx';
+import type { Permission, Role, RolePermission, User } from './api';
+import { downloadFile } from './download';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const exportFormats: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+// Spreadsheet apps evaluate cells starting with these as formulas, so a user
+// named `=HYPERLINK(...)` would run in whoever opens the export
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Prefixes such cells with `'`, which makes spreadsheets treat them as text.
+// CSV only: XLSX stores strings as text cells, which are never evaluated.
+const neutralizeFormulas = (rows: ExportRow[]): ExportRow[] =>
+  rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        key,
+        typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value,
+      ])
+    )
+  );
+
+// Writes flat rows in the chosen format and downloads them. `name` becomes
+// the file name (with a date suffix) and the XLSX sheet name.
+export const exportRows = (rows: ExportRow[], name: string, format: ExportFormat) => {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  switch (format) {
+    case 'json':
+      return downloadFile(JSON.stringify(rows, null, 2), filename, 'application/json');
+    case 'csv': {
+      const sheet = XLSX.utils.json_to_sheet(neutralizeFormulas(rows));
+      return downloadFile(XLSX.utils.sheet_to_csv(sheet), filename, 'text/csv;charset=utf-8');
+    }
+    case 'xlsx': {
+      const workbook = XLSX.utils.book_new();
+      // Sheet names are capped at 31 characters
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name.slice(0, 31));
+      const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      return downloadFile(data, filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    }
+  }
+};
+
+export const userRows = (users: User[]): ExportRow[] =>
+  users.map((user) => ({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role_id: user.role_id,
+    role: user.role.name,
+    active: user.active,
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+  }));
+
+export const roleRows = (roles: Role[]): ExportRow[] =>
+  roles.map((role) => ({
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    active: role.active,
+    created_at: role.created_at,
+    updated_at: role.updated_at,
+  }));
+
+export const permissionRows = (permissions: Permission[]): ExportRow[] =>
+  permissions.map((permission) => ({
+    id: permission.id,
+    name: permission.name,
+    description: permission.description,
+    created_at: permission.created_at,
+    updated_at: permission.updated_at,
+  }));
+
+export const rolePermissionRows = (rolePermissions: RolePermission[]): ExportRow[] =>
+  rolePermissions.map((rp) => ({
+    role_id: rp.role_id,
+    role: rp.role.name,
+    permission_id: rp.permission_id,
+    permission: rp.permission.name,
+    permission_description: rp.permission.description,
+    assigned_at: rp.created_at,
+  }));
+
+// "Who can do what": one row per user and permission they hold through their
+// role. Users whose role grants nothing still get a row so they show up.
+export const accessReportRows = (
+  users: User[],
+  assignments: Map<number, RolePermission[]>
+): ExportRow[] =>
+  users.flatMap((user) => {
+    const base = {
+      user_id: user.id,
+      user: user.name,
+      email: user.email,
+      active: user.active,
+      role: user.role.name,
+      role_active: user.role.active,
+    };
+    const granted = assignments.get(user.role_id) ?? [];
+
+    return granted.length === 0
+      ? [{ ...base, permission: null, permission_description: null }]
+      : granted.map((rp) => ({
+          ...base,
+          permission: rp.permission.name,
+          permission_description: rp.permission.description,
+        }));
+  });
@@ -0,0 +1,23 @@
+import type { FieldPath, FieldValues, UseFormSetError } from 'react-hook-form';
+import { FieldValidationError } from './api-errors';
+
+// Copies a 422's per-field messages onto the matching form fields. Returns
+// true if at least one landed, so the caller can skip the generic toast.
+// Fields the form doesn't know about are left for the toast to report.
+export const applyFieldErrors = <T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly FieldPath<T>[]
+): boolean => {
+  if (!(error instanceof FieldValidationError)) return false;
+
+  let applied = false;
+  fields.forEach((field) => {
+    const messages = error.fieldErrors[field];
+    if (messages?.length) {
+      setError(field, { type: 'server', message: messages.join('. ') }, { shouldFocus: !applied });
+      applied = true;
+    }
+  });
+  return applied;
+};
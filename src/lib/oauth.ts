@@ -0,0 +1,87 @@
+import { api } from './api';
+
+// Google sign-in leaves the app for the provider and comes back through
+// /auth/callback. Router state doesn't survive the round trip, so the page to
+// return to is parked in sessionStorage.
+
+const RETURN_TO_KEY = 'erp-admin.oauth-return-to';
+
+export const OAUTH_CALLBACK_PATH = '/auth/callback';
+
+export const startGoogleSignIn = (returnTo: string) => {
+  try {
+    sessionStorage.setItem(RETURN_TO_KEY, returnTo);
+  } catch {
+    // Storage unavailable; the callback falls back to the dashboard
+  }
+  window.location.href = api.getGoogleAuthUrl(`${window.location.origin}${OAUTH_CALLBACK_PATH}`);
+};
+
+// Where to go after a successful callback. Read once: a later, unrelated
+// sign-in shouldn't land on a stale page.
+export const takeOAuthReturnTo = (fallback = '/dashboard'): string => {
+  try {
+    const returnTo = sessionStorage.getItem(RETURN_TO_KEY);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+    // Only same-app paths, never an absolute or protocol-relative URL
+    return returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export type OAuthErrorKind = 'denied' | 'not-linked' | 'disabled' | 'failed';
+
+export interface OAuthError {
+  kind: OAuthErrorKind;
+  title: string;
+  description: string;
+}
+
+// Error codes the backend (or Google, for consent) puts in the callback URL
+const errorKinds: Record<string, OAuthErrorKind> = {
+  access_denied: 'denied',
+  consent_denied: 'denied',
+  email_not_linked: 'not-linked',
+  account_not_found: 'not-linked',
+  user_not_found: 'not-linked',
+  account_disabled: 'disabled',
+  user_inactive: 'disabled',
+};
+
+const errorCopy: Record<OAuthErrorKind, Omit<OAuthError, 'kind'>> = {
+  denied: {
+    title: 'Google sign-in was cancelled',
+    description: 'You declined to share your Google account. Sign in with your email and password instead, or try again.',
+  },
+  'not-linked': {
+    title: 'No account for this Google address',
+    description:
+      'Your Google email is not linked to an ERP Admin account. Create an account with this email first, or sign in with the account you already have.',
+  },
+  disabled: {
+    title: 'Account disabled',
+    description: 'Your account has been deactivated. Contact an administrator to restore access.',
+  },
+  failed: {
+    title: 'Google sign-in failed',
+    description: 'Something went wrong while signing in with Google. Please try again.',
+  },
+};
+
+// Reads the callback's query string; null when it reports no error
+export const parseOAuthError = (params: URLSearchParams): OAuthError | null => {
+  const code = params.get('error');
+  if (!code && params.get('success') !== 'false') return null;
+
+  const kind = (code && errorKinds[code]) || 'failed';
+  const detail = params.get('error_description') || params.get('message');
+  return {
+    kind,
+    ...errorCopy[kind],
+    // The backend's own wording is more specific than ours for unknown failures
+    ...(kind === 'failed' && detail ? { description: detail } : {}),
+  };
+};
+
+export const oauthFailure = (): OAuthError => ({ kind: 'failed', ...errorCopy.failed });
@@ -0,0 +1,59 @@
+// Client-side password strength estimate for the reset and sign-up forms. A
+// rough guide for the user, not a security boundary: the backend enforces
+// its own rules and reports them as field errors.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Lowest score the reset form accepts
+export const MIN_PASSWORD_SCORE = 2;
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  label: string;
+  // What would raise the score, most useful first
+  suggestions: string[];
+}
+
+const LABELS: Record<PasswordScore, string> = {
+  0: 'Too weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+// Fragments that make a password trivially guessable whatever else it contains
+const COMMON_PATTERNS = [/password/i, /qwerty/i, /letmein/i, /admin/i, /welcome/i, /123456/, /(.)\1{3,}/];
+
+export const scorePassword = (password: string): PasswordStrength => {
+  const suggestions: string[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    suggestions.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  if (classes < 3) {
+    suggestions.push('Mix upper and lower case letters, digits and symbols');
+  }
+  if (password.length < 12) {
+    suggestions.push('Longer is stronger: aim for 12 characters or more');
+  }
+
+  const common = COMMON_PATTERNS.some((pattern) => pattern.test(password));
+  if (common) {
+    suggestions.unshift('Avoid common words, sequences and repeated characters');
+  }
+
+  let score = 0;
+  if (password.length >= MIN_PASSWORD_LENGTH) {
+    score = 1;
+    if (classes >= 3) score++;
+    if (password.length >= 12) score++;
+    if (password.length >= 16 || (password.length >= 12 && classes === 4)) score++;
+    if (common) score = Math.min(score, 1);
+  }
+
+  return { score: score as PasswordScore, label: LABELS[score as PasswordScore], suggestions };
+};
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import type { Permission } from './api';
+
+// Templates reference permissions by name rather than id so they survive
+// permissions being re-created, and can be shared between backends.
+export const permissionTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  permissions: z.array(z.string()),
+  builtIn: z.boolean().optional(),
+});
+
+export type PermissionTemplate = z.infer<typeof permissionTemplateSchema>;
+
+const STORAGE_KEY = 'erp-admin.permission-templates';
+
+export const builtInTemplates: PermissionTemplate[] = [
+  {
+    id: 'builtin:read-only-auditor',
+    name: 'Read-only auditor',
+    description: 'Can view users, roles and permissions but change nothing',
+    permissions: ['user.read', 'role.read', 'permission.read'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin:placement-officer',
+    name: 'Placement officer',
+    description: 'Manages student and staff accounts; can look up roles',
+    permissions: ['user.read', 'user.create', 'user.update', 'role.read'],
+    builtIn: true,
+  },
+];
+
+export const loadCustomTemplates = (): PermissionTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(permissionTemplateSchema).safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PermissionTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Splits a template's names into permissions that exist on this backend and
+// names that don't (e.g. a template made against another environment)
+export const resolveTemplate = (template: PermissionTemplate, permissions: Permission[]) => {
+  const byName = new Map(permissions.map((permission) => [permission.name, permission]));
+  return {
+    resolved: template.permissions.flatMap((name) => byName.get(name) ?? []),
+    unknown: template.permissions.filter((name) => !byName.has(name)),
+  };
+};
@@ -0,0 +1,81 @@
+import type { Permission } from './api';
+
+// Permission names follow `category.action`, e.g. `user.read`
+export const PERMISSION_NAME_PATTERN = /^[a-z][a-z0-9_]*\.[a-z][a-z0-9_]*$/;
+
+export const COMMON_ACTIONS = ['read', 'create', 'update', 'delete'] as const;
+
+// Every permission the frontend checks, with what it unlocks here. The backend
+// owns the real list; the Permission registry page reports any drift.
+export const permissionRegistry = {
+  'user.read': 'View users and their details',
+  'user.create': 'Create and import users',
+  'user.update': 'Edit, activate and deactivate users',
+  'user.delete': 'Delete users',
+  'role.read': 'View roles',
+  'role.create': 'Create and duplicate roles',
+  'role.update': 'Edit, activate and deactivate roles',
+  'role.delete': 'Delete roles',
+  'permission.read': 'View permissions',
+  'permission.create': 'Create permissions',
+  'permission.update': 'Edit permissions',
+  'permission.delete': 'Delete permissions',
+  'permission.assign': 'Grant and revoke role permissions',
+} as const satisfies Record<string, string>;
+
+export type PermissionName = keyof typeof permissionRegistry;
+
+export const knownPermissions = Object.keys(permissionRegistry) as PermissionName[];
+
+export const isKnownPermission = (name: string): name is PermissionName => name in permissionRegistry;
+
+// Permission each guarded route requires. App.tsx and the sidebar read their
+// guards from here, so the Permissions page can tell which ones the frontend
+// depends on.
+export const routeGuards = {
+  '/users': 'user.read',
+  '/users/:id': 'user.read',
+  '/roles': 'role.read',
+  '/permissions': 'permission.read',
+  '/role-permissions': 'permission.assign',
+  '/dev/permissions': 'permission.read',
+} as const satisfies Record<string, PermissionName>;
+
+export const getGuardedRoutes = (permissionName: string) =>
+  Object.entries(routeGuards)
+    .filter(([, required]) => required === permissionName)
+    .map(([path]) => path);
+
+export const getPermissionCategory = (permissionName: string) => {
+  const [category] = permissionName.split('.');
+  return category;
+};
+
+export const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1);
+
+export const groupPermissionsByCategory = (permissions: Permission[]) => {
+  return permissions.reduce((groups, permission) => {
+    const category = getPermissionCategory(permission.name);
+    if (!groups[category]) {
+      groups[category] = [];
+    }
+    groups[category].push(permission);
+    return groups;
+  }, {} as Record<string, Permission[]>);
+};
+
+export const getCategoryColor = (category: string) => {
+  switch (category) {
+    case 'user':
+      return 'bg-primary text-primary-foreground';
+    case 'role':
+      return 'bg-warning text-warning-foreground';
+    case 'permission':
+      return 'bg-success text-success-foreground';
+    case 'system':
+      return 'bg-destructive text-destructive-foreground';
+    default:
+      return 'bg-secondary text-secondary-foreground';
+  }
+};
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import type { Permission, Role } from './api';
+import type { PermissionName } from './permissions';
+import { isProtectedRole, isReservedRoleName, RESERVED_ROLE_NAME_MESSAGE } from './roles';
+
+// A portable snapshot of the RBAC configuration: roles, permissions and which
+// role holds which permission. Everything is keyed by name, not id, so a
+// bundle exported from staging can be applied to production.
+
+export const RBAC_BUNDLE_VERSION = 1;
+
+export const rbacBundleSchema = z.object({
+  version: z.literal(RBAC_BUNDLE_VERSION),
+  exported_at: z.string(),
+  // Where the bundle came from, for display only
+  source: z.string().optional(),
+  permissions: z.array(z.object({ name: z.string().min(1), description: z.string() })),
+  roles: z.array(z.object({ name: z.string().min(1), description: z.string(), active: z.boolean() })),
+  // Role name -> permission names
+  assignments: z.record(z.array(z.string())),
+});
+
+export type RbacBundle = z.infer<typeof rbacBundleSchema>;
+export type RbacBundlePermission = RbacBundle['permissions'][number];
+export type RbacBundleRole = RbacBundle['roles'][number];
+
+// Live configuration as fetched from a backend; assignments hold permission ids
+export interface RbacSnapshot {
+  roles: Role[];
+  permissions: Permission[];
+  assignments: Map<number, Set<number>>;
+}
+
+export type RbacChange =
+  | { id: string; kind: 'create-permission'; permission: RbacBundlePermission }
+  | { id: string; kind: 'update-permission'; permission: RbacBundlePermission; live: Permission }
+  | { id: string; kind: 'delete-permission'; live: Permission }
+  | { id: string; kind: 'create-role'; role: RbacBundleRole }
+  | { id: string; kind: 'update-role'; role: RbacBundleRole; live: Role }
+  | { id: string; kind: 'delete-role'; live: Role }
+  | { id: string; kind: 'assign'; roleName: string; permissionName: string }
+  | { id: string; kind: 'revoke'; roleName: string; permissionName: string };
+
+export type RbacChangeKind = RbacChange['kind'];
+
+// Removals are destructive on the target backend, so they start unselected.
+// Deactivating a role takes its permissions away from its holders, so it counts.
+export const isRemoval = (change: RbacChange) =>
+  change.kind === 'delete-permission' ||
+  change.kind === 'delete-role' ||
+  change.kind === 'revoke' ||
+  (change.kind === 'update-role' && change.live.active && !change.role.active);
+
+// What the signed-in user needs to make each kind of change
+const requiredPermission: Record<RbacChangeKind, PermissionName> = {
+  'create-permission': 'permission.create',
+  'update-permission': 'permission.update',
+  'delete-permission': 'permission.delete',
+  'create-role': 'role.create',
+  'update-role': 'role.update',
+  'delete-role': 'role.delete',
+  assign: 'permission.assign',
+  revoke: 'permission.assign',
+};
+
+// Role a change would delete or deactivate, if any
+export const retiredRole = (change: RbacChange): Role | null =>
+  change.kind === 'delete-role' || (change.kind === 'update-role' && isRemoval(change)) ? change.live : null;
+
+// Why a change can't be applied from here, or null if it can. Blocked changes
+// are still listed so the diff stays complete, but can't be selected.
+export const getChangeBlock = (
+  change: RbacChange,
+  {
+    can,
+    holders,
+  }: {
+    can: (permission: PermissionName) => boolean;
+    // Role id -> number of users holding it, for roles the import would
+    // retire; null when it couldn't be counted
+    holders: Map<number, number | null>;
+  }
+): string | null => {
+  const required = requiredPermission[change.kind];
+  if (!can(required)) return `Requires ${required}`;
+
+  // A missing admin role can't be recreated from a bundle, only by the backend
+  if (change.kind === 'create-role' && isReservedRoleName(change.role.name)) return RESERVED_ROLE_NAME_MESSAGE;
+
+  // Users have to be moved off a role before it goes; the import can't pick
+  // where to, so that's left to the Roles page
+  const role = retiredRole(change);
+  const held = role ? holders.get(role.id) : 0;
+  if (held === null) return 'Requires user.read to check who holds this role';
+  if (held !== undefined && held > 0) return `Held by ${held} users; retire it from the Roles page to reassign them first`;
+
+  return null;
+};
+
+export const buildBundle = (snapshot: RbacSnapshot, source?: string): RbacBundle => {
+  const permissionNames = new Map(snapshot.permissions.map((permission) => [permission.id, permission.name]));
+
+  return {
+    version: RBAC_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source,
+    permissions: snapshot.permissions.map(({ name, description }) => ({ name, description })),
+    roles: snapshot.roles.map(({ name, description, active }) => ({ name, description, active })),
+    assignments: Object.fromEntries(
+      snapshot.roles.map((role) => [
+        role.name,
+        [...(snapshot.assignments.get(role.id) ?? [])]
+          .map((permissionId) => permissionNames.get(permissionId))
+          .filter((name): name is string => name !== undefined)
+          .sort(),
+      ])
+    ),
+  };
+};
+
+export const parseBundle = (text: string): RbacBundle => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const version = (json as { version?: unknown } | null)?.version;
+  if (version !== RBAC_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${String(version)}; expected ${RBAC_BUNDLE_VERSION}`);
+  }
+
+  const parsed = rbacBundleSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid bundle at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return parsed.data;
+};
+
+// Everything that would have to change on the live backend for it to match
+// the bundle, in the order it has to be applied
+export const diffBundle = (bundle: RbacBundle, live: RbacSnapshot): RbacChange[] => {
+  const changes: RbacChange[] = [];
+  const livePermissions = new Map(live.permissions.map((permission) => [permission.name, permission]));
+  const liveRoles = new Map(live.roles.map((role) => [role.name, role]));
+  const bundlePermissions = new Set(bundle.permissions.map((permission) => permission.name));
+  const bundleRoles = new Set(bundle.roles.map((role) => role.name));
+  const permissionNames = new Map(live.permissions.map((permission) => [permission.id, permission.name]));
+
+  bundle.permissions.forEach((permission) => {
+    const current = livePermissions.get(permission.name);
+    if (!current) {
+      changes.push({ id: `create-permission:${permission.name}`, kind: 'create-permission', permission });
+    } else if (current.description !== permission.description) {
+      changes.push({ id: `update-permission:${permission.name}`, kind: 'update-permission', permission, live: current });
+    }
+  });
+
+  bundle.roles.forEach((bundleRole) => {
+    const current = liveRoles.get(bundleRole.name);
+    // Admin roles are never deactivated by an import, whatever the bundle says
+    const role = current && isProtectedRole(current) ? { ...bundleRole, active: current.active } : bundleRole;
+    if (!current) {
+      changes.push({ id: `create-role:${role.name}`, kind: 'create-role', role });
+    } else if (current.description !== role.description || current.active !== role.active) {
+      changes.push({ id: `update-role:${role.name}`, kind: 'update-role', role, live: current });
+    }
+  });
+
+  bundle.roles.forEach((role) => {
+    const current = liveRoles.get(role.name);
+    const held = new Set(
+      [...(current ? live.assignments.get(current.id) ?? [] : [])].map((id) => permissionNames.get(id))
+    );
+    const wanted = new Set(bundle.assignments[role.name] ?? []);
+
+    wanted.forEach((permissionName) => {
+      if (!held.has(permissionName)) {
+        changes.push({ id: `assign:${role.name}:${permissionName}`, kind: 'assign', roleName: role.name, permissionName });
+      }
+    });
+    held.forEach((permissionName) => {
+      if (permissionName && !wanted.has(permissionName)) {
+        changes.push({ id: `revoke:${role.name}:${permissionName}`, kind: 'revoke', roleName: role.name, permissionName });
+      }
+    });
+  });
+
+  live.roles.forEach((role) => {
+    if (!bundleRoles.has(role.name) && !isProtectedRole(role)) {
+      changes.push({ id: `delete-role:${role.name}`, kind: 'delete-role', live: role });
+    }
+  });
+  live.permissions.forEach((permission) => {
+    if (!bundlePermissions.has(permission.name)) {
+      changes.push({ id: `delete-permission:${permission.name}`, kind: 'delete-permission', live: permission });
+    }
+  });
+
+  return changes;
+};
+
+export const describeChange = (change: RbacChange): string => {
+  switch (change.kind) {
+    case 'create-permission':
+      return `Create permission ${change.permission.name}`;
+    case 'update-permission':
+      return `Update description of ${change.permission.name}`;
+    case 'delete-permission':
+      return `Delete permission ${change.live.name}`;
+    case 'create-role':
+      return `Create role ${change.role.name}`;
+    case 'update-role':
+      return isRemoval(change) ? `Deactivate role ${change.role.name}` : `Update role ${change.role.name}`;
+    case 'delete-role':
+      return `Delete role ${change.live.name}`;
+    case 'assign':
+      return `Grant ${change.permissionName} to ${change.roleName}`;
+    case 'revoke':
+      return `Revoke ${change.permissionName} from ${change.roleName}`;
+  }
+};
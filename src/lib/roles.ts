@@ -0,0 +1,29 @@
+import type { Role } from './api';
+
+// Roles isAdmin() checks by name. Renaming, deactivating or deleting one
+// would silently strip admin rights, so the UI refuses to.
+export const ADMIN_ROLE_NAMES = ['Super Admin', 'Admin'] as const;
+
+export const isProtectedRole = (role: Pick<Role, 'name'>) =>
+  (ADMIN_ROLE_NAMES as readonly string[]).includes(role.name);
+
+// Any other role given one of these names would gain admin rights, even if
+// the original admin role has since been retired. Case-insensitive so the
+// backend's collation can't turn a near-miss into a match.
+export const isReservedRoleName = (name: string) =>
+  ADMIN_ROLE_NAMES.some((reserved) => reserved.toLowerCase() === name.trim().toLowerCase());
+
+export const RESERVED_ROLE_NAME_MESSAGE = 'This name is reserved for the built-in admin roles';
+
+export const getRoleBadgeColor = (roleName: string) => {
+  switch (roleName) {
+    case 'Super Admin':
+      return 'bg-destructive text-destructive-foreground';
+    case 'Admin':
+      return 'bg-warning text-warning-foreground';
+    case 'Manager':
+      return 'bg-primary text-primary-foreground';
+    default:
+      return 'bg-secondary text-secondary-foreground';
+  }
+};
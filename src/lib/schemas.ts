@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// Runtime schemas for the backend contract. The exported types in api.ts are
+// inferred from these so the compile-time and runtime shapes can't drift apart.
+
+export const roleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const userSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role_id: z.number(),
+  role: roleSchema,
+  active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const permissionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const rolePermissionSchema = z.object({
+  id: z.number(),
+  role_id: z.number(),
+  permission_id: z.number(),
+  role: roleSchema,
+  permission: permissionSchema,
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// One entry of a user's account history (activation changes, role changes, ...)
+export const userHistoryEventSchema = z.object({
+  id: z.number(),
+  event: z.string(),
+  description: z.string().nullish(),
+  actor: z.object({ id: z.number(), name: z.string() }).nullish(),
+  created_at: z.string(),
+});
+
+// /userdata embeds a trimmed role without timestamps
+export const sessionUserSchema = userSchema.extend({
+  role: roleSchema.pick({ id: true, name: true, description: true, active: true }),
+});
+
+export const userListSchema = z.array(userSchema);
+export const userHistorySchema = z.array(userHistoryEventSchema);
+export const roleListSchema = z.array(roleSchema);
+export const permissionListSchema = z.array(permissionSchema);
+export const rolePermissionListSchema = z.array(rolePermissionSchema);
+
+// Server-paginated list: one page of items plus the total across all pages
+export const paginatedSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    items: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    page_size: z.number(),
+  });
+
+export const userPageSchema = paginatedSchema(userSchema);
+
+export const userDataSchema = z.object({ user: sessionUserSchema });
+
+// Envelope every endpoint wraps its payload in. `data` is checked separately
+// against the per-endpoint schema so errors can point at the payload path.
+export const apiResponseSchema = z.object({
+  success: z.boolean(),
+  route: z.string(),
+  message: z.string(),
+  data: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+// Pushed by the backend's event stream when RBAC data changes under us
+export const backendEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('role_permissions.changed'), role_id: z.number() }),
+  z.object({ type: z.literal('role.changed'), role_id: z.number() }),
+  z.object({ type: z.literal('permission.changed') }),
+  z.object({ type: z.literal('user.changed'), user_id: z.number() }),
+]);
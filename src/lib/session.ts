@@ -0,0 +1,31 @@
+// Timings for keeping the frontend's view of the session in line with the
+// backend's session cookie
+
+// How often a signed-in tab re-checks /userdata in the background
+export const SESSION_REVALIDATE_INTERVAL_MS = 5 * 60_000;
+
+// Returning to the tab re-checks too, but no more often than this
+export const SESSION_FOCUS_REVALIDATE_MIN_MS = 60_000;
+
+// Signed out after this long without keyboard, mouse or touch input
+export const IDLE_TIMEOUT_MS = 30 * 60_000;
+
+// The countdown warning appears this long before the idle sign-out
+export const IDLE_WARNING_MS = 60_000;
+
+// Activity is shared with other tabs at most this often
+export const ACTIVITY_BROADCAST_INTERVAL_MS = 15_000;
+
+// Endpoints whose 401 means bad credentials, not an expired session. Matched
+// as prefixes, so '/reset-password' covers '/reset-password/<token>'.
+export const SESSION_ENDPOINTS = ['/login', '/logout', '/register', '/forgot-password', '/reset-password'];
+
+export const isSessionEndpoint = (endpoint: string) =>
+  SESSION_ENDPOINTS.some((path) => endpoint === path || endpoint.startsWith(`${path}/`));
+
+// Access changes arriving within this window share one permission refresh
+export const ACCESS_REFRESH_DELAY_MS = 300;
+
+// Server-sent events stream announcing RBAC changes made by other admins.
+// Opt-in, since not every backend serves one; see scripts/mock-events-server.mjs.
+export const BACKEND_EVENTS_URL: string | null = import.meta.env.VITE_EVENTS_URL || null;
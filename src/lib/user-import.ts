@@ -0,0 +1,188 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import type { Role } from './api';
+
+// Spreadsheet import of user accounts: parse a CSV/XLSX file in the browser,
+// map its columns onto user fields, and validate each row before anything
+// is sent to the backend.
+
+export const importFields = ['name', 'email', 'role', 'password'] as const;
+export type ImportField = (typeof importFields)[number];
+
+// Creating a user requires a password, so the column is mandatory
+export const requiredImportFields: readonly ImportField[] = ['name', 'email', 'role', 'password'];
+
+// Column index in the sheet for each field; null when not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+  // 1-based line in the source file for each entry in rows
+  lines: number[];
+}
+
+export interface ImportRow {
+  // 1-based line in the source file, counting the header row
+  line: number;
+  name: string;
+  email: string;
+  role: string;
+  password: string;
+  roleId: number | null;
+  errors: string[];
+}
+
+// A row that passed validation, so every field needed to create the user is set
+export type ValidImportRow = ImportRow & { roleId: number };
+
+export const isValidImportRow = (row: ImportRow): row is ValidImportRow =>
+  row.errors.length === 0 && row.roleId !== null;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const headerAliases: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'fullname', 'student name', 'display name'],
+  email: ['email', 'e-mail', 'email address', 'mail'],
+  role: ['role', 'role name', 'user role', 'type'],
+  password: ['password', 'initial password', 'temporary password'],
+};
+
+const emailSchema = z.string().email();
+
+interface SourceRow {
+  cells: string[];
+  line: number;
+}
+
+// Blank rows are dropped here rather than by the parsers so every kept row
+// still knows the line it came from
+const toParsedSheet = (sourceRows: SourceRow[]): ParsedSheet => {
+  const [header, ...rows] = sourceRows
+    .map(({ cells, line }) => ({ cells: cells.map((cell) => (cell ?? '').trim()), line }))
+    .filter(({ cells }) => cells.some(Boolean));
+
+  return {
+    headers: header?.cells ?? [],
+    rows: rows.map(({ cells }) => cells),
+    lines: rows.map(({ line }) => line),
+  };
+};
+
+const parseCsv = async (file: File): Promise<ParsedSheet> => {
+  const text = await file.text();
+  const rows: SourceRow[] = [];
+  const errors: Papa.ParseError[] = [];
+  // A quoted cell can span several lines, so each row's line is counted from
+  // where the parser says the previous one ended
+  let offset = 0;
+  let line = 1;
+  Papa.parse<string[]>(text, {
+    step: ({ data, errors: rowErrors, meta }) => {
+      rows.push({ cells: data, line });
+      errors.push(...rowErrors);
+      line += text.slice(offset, meta.cursor).split('\n').length - 1;
+      offset = meta.cursor;
+    },
+  });
+
+  const sheet = toParsedSheet(rows);
+  // Rows with a stray quote still parse; only give up when nothing did
+  if (sheet.headers.length === 0 && errors.length > 0) {
+    throw new Error(`${file.name} is not a valid CSV file: ${errors[0].message}`);
+  }
+  return sheet;
+};
+
+const parseWorkbook = async (file: File): Promise<ParsedSheet> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet?.['!ref']) return { headers: [], rows: [], lines: [] };
+
+  // Blank rows are kept so each row's index maps straight onto its sheet row
+  const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r;
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+
+  return toParsedSheet(rows.map((row, index) => ({ cells: row.map(String), line: firstRow + index + 1 })));
+};
+
+export const parseSpreadsheet = (file: File): Promise<ParsedSheet> =>
+  /\.xlsx?$/i.test(file.name) ? parseWorkbook(file) : parseCsv(file);
+
+// Lower-cased, de-duplicated addresses in the mapped email column, for the
+// check against existing accounts
+export const importEmails = (sheet: ParsedSheet, mapping: ColumnMapping): string[] => {
+  const index = mapping.email;
+  if (index === null) return [];
+  const emails = sheet.rows.map((row) => (row[index] ?? '').toLowerCase()).filter(Boolean);
+  return [...new Set(emails)].sort();
+};
+
+// Pre-selects columns whose header looks like a known field name
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((header) => header.toLowerCase().trim());
+  return Object.fromEntries(
+    importFields.map((field) => {
+      const index = normalized.findIndex((header) => headerAliases[field].includes(header));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+};
+
+export const validateRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  { roles, existingEmails }: { roles: Role[]; existingEmails: Set<string> }
+): ImportRow[] => {
+  const rolesByName = new Map(roles.map((role) => [role.name.toLowerCase(), role]));
+  const emailCounts = new Map<string, number>();
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '');
+  };
+
+  sheet.rows.forEach((row) => {
+    const email = cell(row, 'email').toLowerCase();
+    if (email) emailCounts.set(email, (emailCounts.get(email) ?? 0) + 1);
+  });
+
+  return sheet.rows.map((row, index) => {
+    const name = cell(row, 'name');
+    const email = cell(row, 'email');
+    const roleName = cell(row, 'role');
+    const password = cell(row, 'password');
+    const role = rolesByName.get(roleName.toLowerCase());
+    const errors: string[] = [];
+
+    if (!name) errors.push('Name is missing');
+    if (!email) errors.push('Email is missing');
+    else if (!emailSchema.safeParse(email).success) errors.push('Email is malformed');
+    else if (existingEmails.has(email.toLowerCase())) errors.push('A user with this email already exists');
+    else if ((emailCounts.get(email.toLowerCase()) ?? 0) > 1) errors.push('Email appears more than once in the file');
+    if (!roleName) errors.push('Role is missing');
+    else if (!role) errors.push(`Unknown role "${roleName}"`);
+    else if (!role.active) errors.push(`Role "${role.name}" is inactive`);
+    if (!password) errors.push('Password is missing');
+    else if (password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    return { line: sheet.lines[index], name, email, role: roleName, password, roleId: role?.id ?? null, errors };
+  });
+};
+
+// CSV of the rows that were rejected, either during validation or by the
+// server, with the reasons in a final column
+export const buildErrorReport = (rows: { row: ImportRow; errors: string[] }[]): string =>
+  Papa.unparse(
+    rows.map(({ row, errors }) => ({
+      line: row.line,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      errors: errors.join('; '),
+    })),
+    // The rows are untrusted input that will be opened in a spreadsheet app
+    { escapeFormulae: true }
+  );
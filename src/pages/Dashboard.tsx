@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
-import { api } from '@/lib/api';
+import { usePermissions, useRoles, useUsers } from '@/api/queries';
 import { Users, Shield, Key, Activity } from 'lucide-react';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 
@@ -15,74 +15,17 @@ interface DashboardStats {
 
 const Dashboard: React.FC = () => {
   const { user, hasPermission } = useAuth();
-  const [stats, setStats] = useState<DashboardStats>({
-    totalUsers: 0,
-    totalRoles: 0,
-    totalPermissions: 0,
-    activeUsers: 0,
-  });
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
-
-  const fetchDashboardData = async () => {
-    try {
-      const promises = [];
-      
-      if (hasPermission('user.read')) {
-        promises.push(api.get('/users'));
-      }
-      if (hasPermission('role.read')) {
-        promises.push(api.get('/roles'));
-      }
-      if (hasPermission('permission.read')) {
-        promises.push(api.get('/permissions'));
-      }
-
-      const results = await Promise.allSettled(promises);
-      
-      let userIndex = 0;
-      let roleIndex = hasPermission('user.read') ? 1 : 0;
-      let permissionIndex = hasPermission('user.read') && hasPermission('role.read') ? 2 : 
-                           hasPermission('user.read') || hasPermission('role.read') ? 1 : 0;
-
-      const newStats: DashboardStats = {
-        totalUsers: 0,
-        totalRoles: 0,
-        totalPermissions: 0,
-        activeUsers: 0,
-      };
-
-      if (hasPermission('user.read') && results[userIndex]?.status === 'fulfilled') {
-        const usersResult = results[userIndex] as PromiseFulfilledResult<any>;
-        if (usersResult.value.success) {
-          newStats.totalUsers = usersResult.value.data.length;
-          newStats.activeUsers = usersResult.value.data.filter((u: any) => u.active).length;
-        }
-      }
-
-      if (hasPermission('role.read') && results[roleIndex]?.status === 'fulfilled') {
-        const rolesResult = results[roleIndex] as PromiseFulfilledResult<any>;
-        if (rolesResult.value.success) {
-          newStats.totalRoles = rolesResult.value.data.length;
-        }
-      }
-
-      if (hasPermission('permission.read') && results[permissionIndex]?.status === 'fulfilled') {
-        const permissionsResult = results[permissionIndex] as PromiseFulfilledResult<any>;
-        if (permissionsResult.value.success) {
-          newStats.totalPermissions = permissionsResult.value.data.length;
-        }
-      }
-
-      setStats(newStats);
-    } catch (error) {
-      console.error('Failed to fetch dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
+  const usersQuery = useUsers({ enabled: hasPermission('user.read') });
+  const rolesQuery = useRoles({ enabled: hasPermission('role.read') });
+  const permissionsQuery = usePermissions({ enabled: hasPermission('permission.read') });
+
+  const loading = usersQuery.isLoading || rolesQuery.isLoading || permissionsQuery.isLoading;
+  const users = usersQuery.data ?? [];
+  const stats: DashboardStats = {
+    totalUsers: users.length,
+    activeUsers: users.filter((u) => u.active).length,
+    totalRoles: rolesQuery.data?.length ?? 0,
+    totalPermissions: permissionsQuery.data?.length ?? 0,
   };
 
   const StatCard: React.FC<{
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { usePermissions } from '@/api/queries';
+import { getGuardedRoutes, isKnownPermission, knownPermissions, permissionRegistry } from '@/lib/permissions';
+import { AlertTriangle, CheckCircle2, Code2, Server } from 'lucide-react';
+
+type RegistryStatus = 'ok' | 'missing-in-backend' | 'unused-by-frontend';
+
+interface RegistryRow {
+  name: string;
+  frontendDescription: string | null;
+  backendDescription: string | null;
+  status: RegistryStatus;
+}
+
+const statusBadge: Record<RegistryStatus, React.ReactNode> = {
+  ok: (
+    <Badge variant="secondary" className="space-x-1">
+      <CheckCircle2 className="h-3 w-3 text-success" />
+      <span>In sync</span>
+    </Badge>
+  ),
+  'missing-in-backend': (
+    <Badge variant="destructive" className="space-x-1">
+      <AlertTriangle className="h-3 w-3" />
+      <span>Missing in backend</span>
+    </Badge>
+  ),
+  'unused-by-frontend': (
+    <Badge className="bg-warning text-warning-foreground space-x-1">
+      <Server className="h-3 w-3" />
+      <span>Not used by frontend</span>
+    </Badge>
+  ),
+};
+
+// Developer view comparing the frontend's permission registry with the
+// backend's /permissions list. Only routed in development builds.
+const PermissionRegistry: React.FC = () => {
+  const { data: permissions = [], isLoading, isError } = usePermissions();
+  const [mismatchesOnly, setMismatchesOnly] = useState(false);
+
+  const backend = new Map(permissions.map((permission) => [permission.name, permission]));
+  const rows: RegistryRow[] = [
+    ...knownPermissions.map((name) => ({
+      name,
+      frontendDescription: permissionRegistry[name],
+      backendDescription: backend.get(name)?.description ?? null,
+      status: backend.has(name) ? ('ok' as const) : ('missing-in-backend' as const),
+    })),
+    ...permissions
+      .filter((permission) => !isKnownPermission(permission.name))
+      .map((permission) => ({
+        name: permission.name,
+        frontendDescription: null,
+        backendDescription: permission.description,
+        status: 'unused-by-frontend' as const,
+      })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  const missing = rows.filter((row) => row.status === 'missing-in-backend').length;
+  const unused = rows.filter((row) => row.status === 'unused-by-frontend').length;
+  const visibleRows = mismatchesOnly ? rows.filter((row) => row.status !== 'ok') : rows;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Permission Registry</h1>
+          <p className="text-muted-foreground">
+            Permissions the frontend checks, compared with the backend's permission list
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Registered</CardTitle>
+              <Code2 className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{knownPermissions.length}</div>
+              <p className="text-xs text-muted-foreground">Checked by the frontend</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Missing in backend</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{isLoading ? '—' : missing}</div>
+              <p className="text-xs text-muted-foreground">Nobody can be granted these</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Not used by frontend</CardTitle>
+              <Server className="h-4 w-4 text-warning" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{isLoading ? '—' : unused}</div>
+              <p className="text-xs text-muted-foreground">Backend-only or stale</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Permissions</CardTitle>
+                <CardDescription>
+                  Add new frontend checks to <code>permissionRegistry</code> in <code>src/lib/permissions.ts</code>
+                </CardDescription>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="mismatches-only" checked={mismatchesOnly} onCheckedChange={setMismatchesOnly} />
+                <Label htmlFor="mismatches-only">Mismatches only</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center h-32">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : isError ? (
+              <p className="text-sm text-destructive text-center py-8">
+                Could not load the backend's permissions, so nothing can be compared.
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Permission</TableHead>
+                      <TableHead>Frontend</TableHead>
+                      <TableHead>Backend</TableHead>
+                      <TableHead>Guards</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          Frontend and backend agree on every permission
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      visibleRows.map((row) => (
+                        <TableRow key={row.name}>
+                          <TableCell className="font-mono text-sm">{row.name}</TableCell>
+                          <TableCell className="text-sm">
+                            {row.frontendDescription ?? <span className="text-muted-foreground">—</span>}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {row.backendDescription ?? <span className="text-muted-foreground">—</span>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {getGuardedRoutes(row.name).map((path) => (
+                                <code key={path} className="bg-muted px-1 py-0.5 rounded text-xs">
+                                  {path}
+                                </code>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>{statusBadge[row.status]}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default PermissionRegistry;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,8 +14,22 @@ import {
 } from '@/components/ui/table';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Permission } from '@/lib/api';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getErrorToast, Permission } from '@/lib/api';
+import { usePermissions, useRoleAssignments, useRoles } from '@/api/queries';
 import { useToast } from '@/hooks/use-toast';
+import { PermissionFormDialog } from '@/components/permissions/PermissionFormDialog';
+import { DeletePermissionDialog } from '@/components/permissions/DeletePermissionDialog';
+import { PermissionUsage } from '@/components/permissions/PermissionUsage';
+import { ExportMenu } from '@/components/ExportMenu';
+import { permissionRows } from '@/lib/export';
+import { getCategoryColor, getPermissionCategory, groupPermissionsByCategory } from '@/lib/permissions';
 import { Search, Plus, MoreHorizontal, Key, Shield, User, Settings } from 'lucide-react';
 import {
   DropdownMenu,
@@ -27,32 +41,36 @@ import {
 } from '@/components/ui/dropdown-menu';
 
 const Permissions: React.FC = () => {
-  const [permissions, setPermissions] = useState<Permission[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: permissions = [], isLoading: loading } = usePermissions();
   const [searchQuery, setSearchQuery] = useState('');
+  // null = closed, 'new' = creating
+  const [editing, setEditing] = useState<Permission | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<Permission | null>(null);
+  const [viewingUsage, setViewingUsage] = useState<Permission | null>(null);
   const { hasPermission } = useAuth();
   const { toast } = useToast();
+  const canReadRoles = hasPermission('role.read');
+  const { data: roles = [], isLoading: rolesLoading } = useRoles({ enabled: canReadRoles });
+  // Which roles hold a permission takes one request per role, so it's only
+  // looked up while a dialog that shows it is open
+  const inspecting = viewingUsage ?? deleting ?? (editing === 'new' ? null : editing);
+  const { assignments, isLoading: assignmentsLoading } = useRoleAssignments(
+    canReadRoles && inspecting ? roles.map((role) => role.id) : []
+  );
+  const holdersLoading = rolesLoading || assignmentsLoading;
 
-  useEffect(() => {
-    fetchPermissions();
-  }, []);
+  // Roles holding a permission; null when the user can't see roles
+  const holdersOf = (permission: Permission | null) =>
+    canReadRoles && permission
+      ? roles.filter((role) => assignments.get(role.id)?.has(permission.id))
+      : null;
 
-  const fetchPermissions = async () => {
+  const copyName = async (permission: Permission) => {
     try {
-      const response = await api.get<Permission[]>('/permissions');
-      if (response.success && Array.isArray(response.data)) {
-        setPermissions(response.data);
-      } else {
-        throw new Error(response.message);
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to fetch permissions",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+      await navigator.clipboard.writeText(permission.name);
+      toast({ title: "Copied", description: permission.name });
+    } catch (error) {
+      toast(getErrorToast(error, "Could not copy to clipboard"));
     }
   };
 
@@ -61,11 +79,6 @@ const Permissions: React.FC = () => {
     permission.description.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const getPermissionCategory = (permissionName: string) => {
-    const [category] = permissionName.split('.');
-    return category;
-  };
-
   const getPermissionIcon = (permissionName: string) => {
     const category = getPermissionCategory(permissionName);
     switch (category) {
@@ -82,22 +95,6 @@ const Permissions: React.FC = () => {
     }
   };
 
-  const getCategoryColor = (permissionName: string) => {
-    const category = getPermissionCategory(permissionName);
-    switch (category) {
-      case 'user':
-        return 'bg-primary text-primary-foreground';
-      case 'role':
-        return 'bg-warning text-warning-foreground';
-      case 'permission':
-        return 'bg-success text-success-foreground';
-      case 'system':
-        return 'bg-destructive text-destructive-foreground';
-      default:
-        return 'bg-secondary text-secondary-foreground';
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -106,14 +103,7 @@ const Permissions: React.FC = () => {
     });
   };
 
-  const groupedPermissions = filteredPermissions.reduce((groups, permission) => {
-    const category = getPermissionCategory(permission.name);
-    if (!groups[category]) {
-      groups[category] = [];
-    }
-    groups[category].push(permission);
-    return groups;
-  }, {} as Record<string, Permission[]>);
+  const groupedPermissions = groupPermissionsByCategory(filteredPermissions);
 
   if (loading) {
     return (
@@ -135,12 +125,25 @@ const Permissions: React.FC = () => {
               Manage system permissions and access control
             </p>
           </div>
-          {hasPermission('permission.create') && (
-            <Button className="bg-gradient-primary hover:opacity-90">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Permission
-            </Button>
-          )}
+          <div className="flex items-center space-x-2">
+            <ExportMenu
+              datasets={[
+                {
+                  label: 'Filtered permissions',
+                  name: 'permissions-filtered',
+                  getRows: () => permissionRows(filteredPermissions),
+                  disabled: !searchQuery,
+                },
+                { label: 'All permissions', name: 'permissions', getRows: () => permissionRows(permissions) },
+              ]}
+            />
+            {hasPermission('permission.create') && (
+              <Button className="bg-gradient-primary hover:opacity-90" onClick={() => setEditing('new')}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Permission
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="grid gap-4 md:grid-cols-4">
@@ -227,7 +230,7 @@ const Permissions: React.FC = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={getCategoryColor(permission.name)}>
+                          <Badge className={getCategoryColor(getPermissionCategory(permission.name))}>
                             {getPermissionCategory(permission.name)}
                           </Badge>
                         </TableCell>
@@ -249,14 +252,28 @@ const Permissions: React.FC = () => {
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
                               <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                              <DropdownMenuItem>View usage</DropdownMenuItem>
-                              <DropdownMenuItem>Copy permission name</DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              {hasPermission('permission.delete') && (
-                                <DropdownMenuItem className="text-destructive">
-                                  Delete permission
+                              <DropdownMenuItem onSelect={() => setViewingUsage(permission)}>
+                                View usage
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => copyName(permission)}>
+                                Copy permission name
+                              </DropdownMenuItem>
+                              {hasPermission('permission.update') && (
+                                <DropdownMenuItem onSelect={() => setEditing(permission)}>
+                                  Edit permission
                                 </DropdownMenuItem>
                               )}
+                              {hasPermission('permission.delete') && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onSelect={() => setDeleting(permission)}
+                                  >
+                                    Delete permission
+                                  </DropdownMenuItem>
+                                </>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -280,6 +297,35 @@ const Permissions: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <PermissionFormDialog
+        open={editing !== null}
+        permission={editing === 'new' ? null : editing}
+        permissions={permissions}
+        holders={editing === 'new' || holdersLoading ? null : holdersOf(editing)}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+      <DeletePermissionDialog
+        permission={deleting}
+        holders={holdersOf(deleting)}
+        holdersLoading={canReadRoles && holdersLoading}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      />
+      <Dialog open={viewingUsage !== null} onOpenChange={(open) => !open && setViewingUsage(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-mono">{viewingUsage?.name}</DialogTitle>
+            <DialogDescription>{viewingUsage?.description}</DialogDescription>
+          </DialogHeader>
+          {viewingUsage && (
+            <PermissionUsage
+              permission={viewingUsage}
+              holders={holdersOf(viewingUsage)}
+              isLoading={canReadRoles && holdersLoading}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 };
@@ -1,14 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PermissionDiffSummary } from '@/components/role-permissions/PermissionDiffSummary';
+import { PermissionMatrix } from '@/components/role-permissions/PermissionMatrix';
+import { PermissionTemplatesDialog } from '@/components/role-permissions/PermissionTemplatesDialog';
+import { RoleComparison } from '@/components/role-permissions/RoleComparison';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UnsavedChangesDialog } from '@/components/UnsavedChangesDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { RbacBundleImportDialog } from '@/components/role-permissions/RbacBundleImportDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { buildBundle } from '@/lib/rbac-bundle';
+import { downloadFile } from '@/lib/download';
+import { accessReportRows, rolePermissionRows } from '@/lib/export';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Role, Permission, RolePermission } from '@/lib/api';
+import { getErrorToast, Permission } from '@/lib/api';
+import { formatCategory, getCategoryColor, groupPermissionsByCategory } from '@/lib/permissions';
+import {
+  fetchAccessData,
+  fetchAllRolePermissions,
+  fetchRbacSnapshot,
+  queryKeys,
+  useApplyRolePermissionChanges,
+  usePendingPermissionToggles,
+  usePermissions,
+  useRolePermissions,
+  useRoles,
+  useTogglePermission,
+} from '@/api/queries';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Shield, Key, Save, RefreshCw } from 'lucide-react';
+import { useUnsavedChanges } from '@/hooks/use-unsaved-changes';
+import { Shield, Save, RefreshCw, ListChecks, Undo2, Grid3X3, LayoutTemplate, GitCompare, FileJson } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -17,137 +50,152 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+type View = 'role' | 'matrix' | 'compare';
+
+// Actions that would throw away the draft and need confirming first
+type DiscardAction =
+  | { type: 'switchRole'; roleId: string }
+  | { type: 'exitDraftMode' };
+
 const RolePermissions: React.FC = () => {
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [permissions, setPermissions] = useState<Permission[]>([]);
-  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
-  const [selectedRole, setSelectedRole] = useState<string>('');
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
-  const [changes, setChanges] = useState<Set<number>>(new Set());
+  const [view, setView] = useState<View>('role');
+  const [searchParams] = useSearchParams();
+  // Preselected when linked from the Roles page
+  const [selectedRole, setSelectedRole] = useState<string>(() => searchParams.get('role') ?? '');
+  // Batch mode: checkboxes edit `draft` locally until the admin saves
+  const [draftMode, setDraftMode] = useState(false);
+  // permission id -> desired assignment, only for entries that differ from the server
+  const [draft, setDraft] = useState<Map<number, boolean>>(new Map());
+  const [pendingDiscard, setPendingDiscard] = useState<DiscardAction | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportingBundle, setExportingBundle] = useState(false);
   const { hasPermission } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const selectedRoleId = selectedRole ? parseInt(selectedRole) : null;
 
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const rolesQuery = useRoles();
+  const permissionsQuery = usePermissions();
+  const rolePermissionsQuery = useRolePermissions(selectedRoleId);
+  const togglePermissionMutation = useTogglePermission();
+  const applyChanges = useApplyRolePermissionChanges();
+  const pendingToggles = usePendingPermissionToggles(selectedRoleId);
 
-  useEffect(() => {
-    if (selectedRole) {
-      fetchRolePermissions(selectedRole);
-    }
-  }, [selectedRole]);
+  const roles = (rolesQuery.data ?? []).filter((role) => role.active);
+  const permissions = permissionsQuery.data ?? [];
+  const rolePermissions = rolePermissionsQuery.data ?? [];
+  const loading = rolesQuery.isLoading || permissionsQuery.isLoading;
+  const canAssign = hasPermission('permission.assign');
+  const dirty = draft.size > 0;
 
-  const fetchData = async () => {
-    try {
-      const [rolesResponse, permissionsResponse] = await Promise.all([
-        api.get<Role[]>('/roles'),
-        api.get<Permission[]>('/permissions')
-      ]);
-
-      if (rolesResponse.success && Array.isArray(rolesResponse.data)) {
-        setRoles(rolesResponse.data.filter((role: Role) => role.active));
-      }
+  const blocker = useUnsavedChanges(dirty);
 
-      if (permissionsResponse.success && Array.isArray(permissionsResponse.data)) {
-        setPermissions(permissionsResponse.data);
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to fetch data",
-        variant: "destructive",
-      });
+  const exportBundle = async () => {
+    setExportingBundle(true);
+    try {
+      const bundle = buildBundle(
+        await fetchRbacSnapshot(queryClient),
+        import.meta.env.VITE_API_URL || window.location.origin
+      );
+      downloadFile(
+        JSON.stringify(bundle, null, 2),
+        `rbac-config-${bundle.exported_at.slice(0, 10)}.json`,
+        'application/json'
+      );
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to export configuration"));
     } finally {
-      setLoading(false);
+      setExportingBundle(false);
     }
   };
 
-  const fetchRolePermissions = async (roleId: string) => {
-    try {
-      const response = await api.get<RolePermission[]>(`/rolepermissions/role/${roleId}`);
-      if (response.success && Array.isArray(response.data)) {
-        setRolePermissions(response.data);
+  const hasRolePermission = (permissionId: number): boolean => {
+    return rolePermissions.some(rp => rp.permission_id === permissionId);
+  };
+
+  // What the checkbox shows: the draft value if there is one, else the server state
+  const isChecked = (permissionId: number): boolean => {
+    return draft.get(permissionId) ?? hasRolePermission(permissionId);
+  };
+
+  const toggleDraft = (permission: Permission) => {
+    const next = !isChecked(permission.id);
+    setDraft(prev => {
+      const updated = new Map(prev);
+      if (next === hasRolePermission(permission.id)) {
+        updated.delete(permission.id);
+      } else {
+        updated.set(permission.id, next);
       }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to fetch role permissions",
-        variant: "destructive",
-      });
-    }
+      return updated;
+    });
   };
 
-  const hasRolePermission = (permissionId: number): boolean => {
-    return rolePermissions.some(rp => rp.permission_id === permissionId);
+  const togglePermission = (permission: Permission) => {
+    const role = roles.find((r) => r.id === selectedRoleId);
+    if (!role || !canAssign) return;
+
+    if (draftMode) {
+      toggleDraft(permission);
+      return;
+    }
+
+    const assign = !hasRolePermission(permission.id);
+
+    // The checkbox flips immediately; on failure the cache is rolled back and
+    // the user is told which permission didn't stick. mutateAsync rather than
+    // mutate's callbacks, which only fire for the latest of several calls.
+    togglePermissionMutation.mutateAsync({ role, permission, assign }).catch((error) => {
+      toast(getErrorToast(error, `Failed to ${assign ? 'add' : 'remove'} ${permission.name}`));
+    });
   };
 
-  const togglePermission = async (permissionId: number) => {
-    if (!selectedRole || !hasPermission('permission.assign')) return;
+  const draftPermissions = (assign: boolean) =>
+    permissions.filter((permission) => draft.get(permission.id) === assign);
+
+  const saveDraft = async () => {
+    if (selectedRoleId === null || !dirty) return;
+
+    const add = [...draft].filter(([, assign]) => assign).map(([id]) => id);
+    const remove = [...draft].filter(([, assign]) => !assign).map(([id]) => id);
 
-    const hasPermissionCurrently = hasRolePermission(permissionId);
-    
     try {
-      if (hasPermissionCurrently) {
-        // Remove permission
-        const deleteBody = JSON.stringify({
-          role_id: parseInt(selectedRole),
-          permission_id: permissionId
-        });
-        await api.delete('/rolepermissions', {
-          role_id: parseInt(selectedRole),
-          permission_id: permissionId
+      const { failed } = await applyChanges.mutateAsync({ roleId: selectedRoleId, add, remove });
+
+      // Keep only what didn't go through so the admin can retry it
+      setDraft(new Map(failed.map(({ permissionId, assign }) => [permissionId, assign])));
+
+      if (failed.length === 0) {
+        toast({
+          title: "Changes saved",
+          description: `${draft.size} permission ${draft.size === 1 ? 'change' : 'changes'} applied to ${selectedRoleData?.name}`,
         });
       } else {
-        // Add permission
-        await api.post('/rolepermissions', {
-          role_id: parseInt(selectedRole),
-          permission_id: permissionId
+        toast({
+          ...getErrorToast(failed[0].error),
+          title: `${failed.length} of ${draft.size} changes failed`,
         });
       }
-
-      // Refresh role permissions
-      await fetchRolePermissions(selectedRole);
-      
-      // Track changes
-      setChanges(prev => new Set([...prev, permissionId]));
-
-      toast({
-        title: "Success",
-        description: `Permission ${hasPermissionCurrently ? 'removed from' : 'added to'} role`,
-      });
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to update permission",
-        variant: "destructive",
-      });
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to save changes"));
     }
   };
 
-  const groupPermissionsByCategory = (permissions: Permission[]) => {
-    return permissions.reduce((groups, permission) => {
-      const [category] = permission.name.split('.');
-      if (!groups[category]) {
-        groups[category] = [];
-      }
-      groups[category].push(permission);
-      return groups;
-    }, {} as Record<string, Permission[]>);
+  const runDiscardAction = (action: DiscardAction) => {
+    setDraft(new Map());
+    if (action.type === 'switchRole') {
+      setSelectedRole(action.roleId);
+    } else {
+      setDraftMode(false);
+    }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'user':
-        return 'bg-primary text-primary-foreground';
-      case 'role':
-        return 'bg-warning text-warning-foreground';
-      case 'permission':
-        return 'bg-success text-success-foreground';
-      case 'system':
-        return 'bg-destructive text-destructive-foreground';
-      default:
-        return 'bg-secondary text-secondary-foreground';
+  const requestDiscardAction = (action: DiscardAction) => {
+    if (dirty) {
+      setPendingDiscard(action);
+    } else {
+      runDiscardAction(action);
     }
   };
 
@@ -174,126 +222,338 @@ const RolePermissions: React.FC = () => {
               Assign permissions to roles for granular access control
             </p>
           </div>
-          <Button 
-            onClick={() => fetchRolePermissions(selectedRole)}
-            variant="outline"
-            disabled={!selectedRole}
-          >
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
-          </Button>
+          <div className="flex items-center space-x-2">
+            {canAssign && view === 'role' && (
+              <Button
+                variant="outline"
+                onClick={() => setTemplatesOpen(true)}
+                disabled={!selectedRoleData || dirty}
+                title={dirty ? 'Save or discard your batch changes first' : undefined}
+              >
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Templates
+              </Button>
+            )}
+            {canAssign && view === 'role' && (
+              draftMode ? (
+                <Button variant="outline" onClick={() => requestDiscardAction({ type: 'exitDraftMode' })}>
+                  Exit batch edit
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => setDraftMode(true)}>
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  Batch edit
+                </Button>
+              )
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={exportingBundle}>
+                  {exportingBundle ? <LoadingSpinner size="sm" /> : <FileJson className="h-4 w-4 mr-2" />}
+                  Configuration
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={exportBundle}>Export bundle (JSON)</DropdownMenuItem>
+                {canAssign && (
+                  <DropdownMenuItem onSelect={() => setImportOpen(true)}>Import bundle...</DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <ExportMenu
+              datasets={[
+                {
+                  label: selectedRoleData ? `${selectedRoleData.name} permissions` : 'Selected role',
+                  name: `role-permissions-${selectedRoleData?.name.toLowerCase().replace(/\s+/g, '-') ?? 'role'}`,
+                  getRows: () => rolePermissionRows(rolePermissions),
+                  disabled: !selectedRoleData,
+                },
+                {
+                  label: 'All role mappings',
+                  name: 'role-permissions',
+                  getRows: async () =>
+                    rolePermissionRows(
+                      await fetchAllRolePermissions(queryClient, (rolesQuery.data ?? []).map((role) => role.id))
+                    ),
+                },
+                ...(hasPermission('user.read')
+                  ? [
+                      {
+                        label: 'Access report (user → role → permissions)',
+                        name: 'access-report',
+                        getRows: async () => {
+                          const { users, assignments } = await fetchAccessData(queryClient);
+                          return accessReportRows(users, assignments);
+                        },
+                      },
+                    ]
+                  : []),
+              ]}
+            />
+            <Button
+              onClick={() =>
+                view !== 'role'
+                  ? queryClient.invalidateQueries({ queryKey: queryKeys.rolePermissions.all })
+                  : rolePermissionsQuery.refetch()
+              }
+              variant="outline"
+              disabled={view === 'role' && !selectedRole}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
         </div>
 
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle>Permission Matrix</CardTitle>
-                <CardDescription>
-                  Select a role to view and manage its permissions
-                </CardDescription>
-              </div>
-              <div className="flex items-center space-x-4">
-                <Select value={selectedRole} onValueChange={setSelectedRole}>
-                  <SelectTrigger className="w-64">
-                    <SelectValue placeholder="Select a role" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {roles.map((role) => (
-                      <SelectItem key={role.id} value={role.id.toString()}>
-                        <div className="flex items-center space-x-2">
-                          <Shield className="h-4 w-4" />
-                          <span>{role.name}</span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {!selectedRole ? (
-              <div className="text-center py-12">
-                <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-medium mb-2">Select a Role</h3>
-                <p className="text-muted-foreground">
-                  Choose a role from the dropdown above to view and manage its permissions
-                </p>
-              </div>
-            ) : (
-              <div className="space-y-6">
-                <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+        <Tabs value={view} onValueChange={(value) => setView(value as View)}>
+          <TabsList>
+            <TabsTrigger value="role">
+              <Shield className="h-4 w-4 mr-2" />
+              By role
+            </TabsTrigger>
+            <TabsTrigger value="matrix">
+              <Grid3X3 className="h-4 w-4 mr-2" />
+              All roles
+            </TabsTrigger>
+            <TabsTrigger value="compare">
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="role">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="font-medium">Managing permissions for:</h3>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <Badge className="bg-primary text-primary-foreground">
-                        {selectedRoleData?.name}
-                      </Badge>
-                      <span className="text-sm text-muted-foreground">
-                        {selectedRoleData?.description}
-                      </span>
-                    </div>
+                    <CardTitle>Permission Matrix</CardTitle>
+                    <CardDescription>
+                      {draftMode
+                        ? 'Batch edit: changes stay local until you save them'
+                        : 'Select a role to view and manage its permissions'}
+                    </CardDescription>
                   </div>
-                  <div className="text-sm text-muted-foreground">
-                    {rolePermissions.length} permissions assigned
+                  <div className="flex items-center space-x-4">
+                    <Select
+                      value={selectedRole}
+                      onValueChange={(roleId) => requestDiscardAction({ type: 'switchRole', roleId })}
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="Select a role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.id} value={role.id.toString()}>
+                            <div className="flex items-center space-x-2">
+                              <Shield className="h-4 w-4" />
+                              <span>{role.name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
+              </CardHeader>
+              <CardContent>
+                {!selectedRole ? (
+                  <div className="text-center py-12">
+                    <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-medium mb-2">Select a Role</h3>
+                    <p className="text-muted-foreground">
+                      Choose a role from the dropdown above to view and manage its permissions
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+                      <div>
+                        <h3 className="font-medium">Managing permissions for:</h3>
+                        <div className="flex items-center space-x-2 mt-1">
+                          <Badge className="bg-primary text-primary-foreground">
+                            {selectedRoleData?.name}
+                          </Badge>
+                          <span className="text-sm text-muted-foreground">
+                            {selectedRoleData?.description}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {rolePermissions.length} permissions assigned
+                      </div>
+                    </div>
 
-                <div className="space-y-6">
-                  {Object.entries(groupedPermissions).map(([category, categoryPermissions]) => (
-                    <Card key={category}>
-                      <CardHeader className="pb-3">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-2">
-                            <Badge className={getCategoryColor(category)}>
-                              {category.charAt(0).toUpperCase() + category.slice(1)}
-                            </Badge>
-                            <span className="text-sm text-muted-foreground">
-                              {categoryPermissions.length} permissions
-                            </span>
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            {categoryPermissions.filter(p => hasRolePermission(p.id)).length} assigned
+                    {draftMode && dirty && (
+                      <Card className="border-primary">
+                        <CardHeader className="pb-3">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <CardTitle className="text-base">Unsaved changes</CardTitle>
+                              <CardDescription>
+                                {draft.size} {draft.size === 1 ? 'change' : 'changes'} to {selectedRoleData?.name}
+                              </CardDescription>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                variant="outline"
+                                onClick={() => setDraft(new Map())}
+                                disabled={applyChanges.isPending}
+                              >
+                                <Undo2 className="h-4 w-4 mr-2" />
+                                Discard
+                              </Button>
+                              <Button
+                                onClick={saveDraft}
+                                disabled={applyChanges.isPending}
+                                className="bg-gradient-primary hover:opacity-90"
+                              >
+                                {applyChanges.isPending ? (
+                                  <LoadingSpinner size="sm" className="mr-2" />
+                                ) : (
+                                  <Save className="h-4 w-4 mr-2" />
+                                )}
+                                Save changes
+                              </Button>
+                            </div>
                           </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-                          {categoryPermissions.map((permission) => (
-                            <div key={permission.id} className="flex items-start space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
-                              <Checkbox
-                                id={`permission-${permission.id}`}
-                                checked={hasRolePermission(permission.id)}
-                                onCheckedChange={() => togglePermission(permission.id)}
-                                disabled={!hasPermission('permission.assign')}
-                                className="mt-1"
-                              />
-                              <div className="flex-1 min-w-0">
-                                <label 
-                                  htmlFor={`permission-${permission.id}`}
-                                  className="text-sm font-medium cursor-pointer block"
-                                >
-                                  {permission.name}
-                                </label>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  {permission.description}
-                                </p>
+                        </CardHeader>
+                        <CardContent>
+                          <PermissionDiffSummary
+                            added={draftPermissions(true)}
+                            removed={draftPermissions(false)}
+                          />
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    <div className="space-y-6">
+                      {Object.entries(groupedPermissions).map(([category, categoryPermissions]) => (
+                        <Card key={category}>
+                          <CardHeader className="pb-3">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center space-x-2">
+                                <Badge className={getCategoryColor(category)}>
+                                  {formatCategory(category)}
+                                </Badge>
+                                <span className="text-sm text-muted-foreground">
+                                  {categoryPermissions.length} permissions
+                                </span>
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {categoryPermissions.filter(p => isChecked(p.id)).length} assigned
                               </div>
                             </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+                              {categoryPermissions.map((permission) => (
+                                <div
+                                  key={permission.id}
+                                  className={`flex items-start space-x-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors ${
+                                    draft.has(permission.id) ? 'border-primary bg-primary/5' : ''
+                                  }`}
+                                >
+                                  <Checkbox
+                                    id={`permission-${permission.id}`}
+                                    checked={isChecked(permission.id)}
+                                    onCheckedChange={() => togglePermission(permission)}
+                                    disabled={!canAssign || applyChanges.isPending}
+                                    className="mt-1"
+                                  />
+                                  <div className="flex-1 min-w-0">
+                                    <label
+                                      htmlFor={`permission-${permission.id}`}
+                                      className="text-sm font-medium cursor-pointer block"
+                                    >
+                                      {permission.name}
+                                    </label>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                      {permission.description}
+                                    </p>
+                                  </div>
+                                  {pendingToggles.has(permission.id) && (
+                                    <LoadingSpinner size="sm" className="mt-1" />
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="matrix">
+            <Card>
+              <CardHeader>
+                <CardTitle>Role × Permission Matrix</CardTitle>
+                <CardDescription>
+                  Every role side by side. Use the row and column checkboxes to grant or revoke in bulk.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PermissionMatrix
+                  roles={rolesQuery.data ?? []}
+                  permissions={permissions}
+                  canAssign={canAssign}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="compare">
+            <Card>
+              <CardHeader>
+                <CardTitle>Compare Roles</CardTitle>
+                <CardDescription>
+                  See which permissions roles share and where they differ
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RoleComparison
+                  roles={rolesQuery.data ?? []}
+                  permissions={permissions}
+                  canAssign={canAssign}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
+
+      {selectedRoleData && (
+        <PermissionTemplatesDialog
+          open={templatesOpen}
+          onOpenChange={setTemplatesOpen}
+          role={selectedRoleData}
+          permissions={permissions}
+          assigned={new Set(rolePermissions.map((rp) => rp.permission_id))}
+        />
+      )}
+
+      <RbacBundleImportDialog open={importOpen} onOpenChange={setImportOpen} />
+
+      <UnsavedChangesDialog
+        open={pendingDiscard !== null}
+        description={`You have ${draft.size} unsaved permission ${draft.size === 1 ? 'change' : 'changes'} for ${selectedRoleData?.name}. They will be lost.`}
+        onCancel={() => setPendingDiscard(null)}
+        onDiscard={() => {
+          if (pendingDiscard) runDiscardAction(pendingDiscard);
+          setPendingDiscard(null);
+        }}
+      />
+
+      <UnsavedChangesDialog
+        open={blocker.state === 'blocked'}
+        onCancel={() => blocker.reset?.()}
+        onDiscard={() => blocker.proceed?.()}
+      />
     </DashboardLayout>
   );
 };
 
-export default RolePermissions;
\ No newline at end of file
+export default RolePermissions;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,8 +15,15 @@ import {
 } from '@/components/ui/table';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Role } from '@/lib/api';
+import { useRoles, useUpdateRole, useUsers } from '@/api/queries';
 import { useToast } from '@/hooks/use-toast';
+import { getErrorToast, Role } from '@/lib/api';
+import { getRoleBadgeColor, isProtectedRole } from '@/lib/roles';
+import { DuplicateRoleDialog } from '@/components/roles/DuplicateRoleDialog';
+import { RoleFormDialog } from '@/components/roles/RoleFormDialog';
+import { RetireRoleDialog, RetireRoleMode } from '@/components/roles/RetireRoleDialog';
+import { ExportMenu } from '@/components/ExportMenu';
+import { roleRows } from '@/lib/export';
 import { Search, Plus, MoreHorizontal, Shield, Users } from 'lucide-react';
 import {
   DropdownMenu,
@@ -27,32 +35,33 @@ import {
 } from '@/components/ui/dropdown-menu';
 
 const Roles: React.FC = () => {
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: roles = [], isLoading: loading } = useRoles();
   const [searchQuery, setSearchQuery] = useState('');
+  const [duplicating, setDuplicating] = useState<Role | null>(null);
+  // null = closed, 'new' = creating
+  const [editing, setEditing] = useState<Role | 'new' | null>(null);
+  const [retiring, setRetiring] = useState<{ role: Role; mode: RetireRoleMode } | null>(null);
   const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const updateRole = useUpdateRole();
   const { toast } = useToast();
+  const canReadUsers = hasPermission('user.read');
+  const { data: users = [], isLoading: usersLoading } = useUsers({ enabled: canReadUsers });
 
-  useEffect(() => {
-    fetchRoles();
-  }, []);
+  const userCounts = users.reduce(
+    (counts, user) => counts.set(user.role_id, (counts.get(user.role_id) ?? 0) + 1),
+    new Map<number, number>()
+  );
 
-  const fetchRoles = async () => {
+  const activateRole = async (role: Role) => {
     try {
-      const response = await api.get<Role[]>('/roles');
-      if (response.success && Array.isArray(response.data)) {
-        setRoles(response.data);
-      } else {
-        throw new Error(response.message);
-      }
-    } catch (error: any) {
+      await updateRole.mutateAsync({ id: role.id, name: role.name, description: role.description, active: true });
       toast({
-        title: "Error",
-        description: error.message || "Failed to fetch roles",
-        variant: "destructive",
+        title: "Role activated",
+        description: `${role.name} can be given to users again`,
       });
-    } finally {
-      setLoading(false);
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to activate role"));
     }
   };
 
@@ -61,19 +70,6 @@ const Roles: React.FC = () => {
     role.description.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const getRoleBadgeColor = (roleName: string) => {
-    switch (roleName) {
-      case 'Super Admin':
-        return 'bg-destructive text-destructive-foreground';
-      case 'Admin':
-        return 'bg-warning text-warning-foreground';
-      case 'Manager':
-        return 'bg-primary text-primary-foreground';
-      default:
-        return 'bg-secondary text-secondary-foreground';
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -102,12 +98,25 @@ const Roles: React.FC = () => {
               Manage user roles and their permissions
             </p>
           </div>
-          {hasPermission('role.create') && (
-            <Button className="bg-gradient-primary hover:opacity-90">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Role
-            </Button>
-          )}
+          <div className="flex items-center space-x-2">
+            <ExportMenu
+              datasets={[
+                {
+                  label: 'Filtered roles',
+                  name: 'roles-filtered',
+                  getRows: () => roleRows(filteredRoles),
+                  disabled: !searchQuery,
+                },
+                { label: 'All roles', name: 'roles', getRows: () => roleRows(roles) },
+              ]}
+            />
+            {hasPermission('role.create') && (
+              <Button className="bg-gradient-primary hover:opacity-90" onClick={() => setEditing('new')}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Role
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="grid gap-4 md:grid-cols-3">
@@ -146,7 +155,7 @@ const Roles: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {roles.filter(role => ['Super Admin', 'Admin'].includes(role.name)).length}
+                {roles.filter(isProtectedRole).length}
               </div>
               <p className="text-xs text-muted-foreground">
                 Administrative roles
@@ -184,6 +193,7 @@ const Roles: React.FC = () => {
                   <TableRow>
                     <TableHead>Role</TableHead>
                     <TableHead>Description</TableHead>
+                    {canReadUsers && <TableHead>Users</TableHead>}
                     <TableHead>Status</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="w-[70px]">Actions</TableHead>
@@ -192,7 +202,7 @@ const Roles: React.FC = () => {
                 <TableBody>
                   {filteredRoles.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-8">
+                      <TableCell colSpan={canReadUsers ? 6 : 5} className="text-center py-8">
                         <div className="flex flex-col items-center space-y-2">
                           <Shield className="h-8 w-8 text-muted-foreground" />
                           <p className="text-muted-foreground">
@@ -222,6 +232,11 @@ const Roles: React.FC = () => {
                             <p className="text-sm">{role.description}</p>
                           </div>
                         </TableCell>
+                        {canReadUsers && (
+                          <TableCell className="text-muted-foreground">
+                            {usersLoading ? '—' : userCounts.get(role.id) ?? 0}
+                          </TableCell>
+                        )}
                         <TableCell>
                           <Badge variant={role.active ? 'default' : 'secondary'}>
                             {role.active ? 'Active' : 'Inactive'}
@@ -240,21 +255,37 @@ const Roles: React.FC = () => {
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
                               <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                              <DropdownMenuItem>View permissions</DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => navigate(`/role-permissions?role=${role.id}`)}>
+                                View permissions
+                              </DropdownMenuItem>
                               {hasPermission('role.update') && (
-                                <DropdownMenuItem>Edit role</DropdownMenuItem>
+                                <DropdownMenuItem onSelect={() => setEditing(role)}>Edit role</DropdownMenuItem>
                               )}
-                              {hasPermission('role.update') && (
-                                <DropdownMenuItem>
-                                  {role.active ? 'Deactivate' : 'Activate'}
+                              {hasPermission('role.create') && (
+                                <DropdownMenuItem onSelect={() => setDuplicating(role)}>
+                                  Duplicate role
                                 </DropdownMenuItem>
                               )}
-                              <DropdownMenuSeparator />
-                              {hasPermission('role.delete') && !['Super Admin', 'Admin'].includes(role.name) && (
-                                <DropdownMenuItem className="text-destructive">
-                                  Delete role
+                              {hasPermission('role.update') && !isProtectedRole(role) && (
+                                <DropdownMenuItem
+                                  onSelect={() =>
+                                    role.active ? setRetiring({ role, mode: 'deactivate' }) : activateRole(role)
+                                  }
+                                >
+                                  {role.active ? 'Deactivate' : 'Activate'}
                                 </DropdownMenuItem>
                               )}
+                              {hasPermission('role.delete') && !isProtectedRole(role) && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onSelect={() => setRetiring({ role, mode: 'delete' })}
+                                  >
+                                    Delete role
+                                  </DropdownMenuItem>
+                                </>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -278,6 +309,24 @@ const Roles: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <DuplicateRoleDialog
+        role={duplicating}
+        roles={roles}
+        onOpenChange={(open) => !open && setDuplicating(null)}
+      />
+      <RoleFormDialog
+        open={editing !== null}
+        role={editing === 'new' ? null : editing}
+        roles={roles}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+      <RetireRoleDialog
+        role={retiring?.role ?? null}
+        mode={retiring?.mode ?? 'delete'}
+        roles={roles}
+        onOpenChange={(open) => !open && setRetiring(null)}
+      />
     </DashboardLayout>
   );
 };
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PermissionGroupList } from '@/components/role-permissions/PermissionDiffSummary';
+import { UserFormDialog } from '@/components/users/UserFormDialog';
+import { DeleteUserDialog } from '@/components/users/DeleteUserDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRolePermissions, useUser, useUserHistory } from '@/api/queries';
+import { useToggleUserActive } from '@/hooks/use-toggle-user-active';
+import { NotFoundError } from '@/lib/api';
+import { getRoleBadgeColor } from '@/lib/roles';
+import { ArrowLeft, Clock, Mail, Pencil, Power, Shield, Trash2 } from 'lucide-react';
+
+const UserDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const userId = Number(id);
+  const navigate = useNavigate();
+  const { user: currentUser, hasPermission } = useAuth();
+  const validId = Number.isInteger(userId);
+  const { data: user, isLoading, error, refetch } = useUser(userId, { enabled: validId });
+  const { data: rolePermissions = [], isLoading: permissionsLoading } = useRolePermissions(user?.role_id ?? null);
+  const { data: history, isError: historyUnavailable } = useUserHistory(userId, { enabled: validId });
+  const { toggleActive, isPending: toggling } = useToggleUserActive();
+  const [editing, setEditing] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const isSelf = user?.id === currentUser?.id;
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!user) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-64 space-y-4">
+          <Shield className="h-8 w-8 text-muted-foreground" />
+          <p className="text-muted-foreground">
+            {error && !(error instanceof NotFoundError) ? error.message : 'User not found'}
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" asChild>
+              <Link to="/users">Back to users</Link>
+            </Button>
+            {error && !(error instanceof NotFoundError) && (
+              <Button onClick={() => refetch()}>Try again</Button>
+            )}
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // The backend may not record history; fall back to the account timestamps
+  const timeline = history && !historyUnavailable
+    ? history.map((event) => ({
+        key: `event-${event.id}`,
+        title: event.event,
+        detail: [event.description, event.actor && `by ${event.actor.name}`].filter(Boolean).join(' '),
+        at: event.created_at,
+      }))
+    : [
+        { key: 'updated', title: 'Last updated', detail: '', at: user.updated_at },
+        { key: 'created', title: 'Account created', detail: '', at: user.created_at },
+      ];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" asChild>
+              <Link to="/users">
+                <ArrowLeft className="h-4 w-4" />
+                <span className="sr-only">Back to users</span>
+              </Link>
+            </Button>
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary text-primary-foreground text-lg">
+              {user.name.charAt(0).toUpperCase()}
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{user.name}</h1>
+              <p className="text-muted-foreground flex items-center">
+                <Mail className="h-4 w-4 mr-1" />
+                {user.email}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            {hasPermission('user.update') && (
+              <>
+                <Button variant="outline" onClick={() => setEditing(true)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => toggleActive(user)}
+                  disabled={toggling || (isSelf && user.active)}
+                >
+                  {toggling ? <LoadingSpinner size="sm" /> : <Power className="h-4 w-4 mr-2" />}
+                  {user.active ? 'Deactivate' : 'Activate'}
+                </Button>
+              </>
+            )}
+            {hasPermission('user.delete') && (
+              <Button variant="destructive" onClick={() => setDeleting(true)} disabled={isSelf}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardTitle>Profile</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Status</span>
+                <Badge variant={user.active ? 'default' : 'secondary'}>
+                  {user.active ? 'Active' : 'Inactive'}
+                </Badge>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Role</span>
+                <Badge className={getRoleBadgeColor(user.role.name)}>{user.role.name}</Badge>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">User ID</span>
+                <span className="font-mono">{user.id}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Created</span>
+                <span>{formatDateTime(user.created_at)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Updated</span>
+                <span>{formatDateTime(user.updated_at)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>Effective Permissions</CardTitle>
+              <CardDescription>
+                Granted through the {user.role.name} role
+                {!user.role.active && ' (this role is currently inactive)'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {permissionsLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <PermissionGroupList
+                  title="Permissions"
+                  permissions={rolePermissions.map((rp) => rp.permission)}
+                  icon={<Shield className="h-4 w-4" />}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account History</CardTitle>
+            <CardDescription>
+              {historyUnavailable
+                ? 'Detailed history is not available; showing account timestamps'
+                : 'Status and role changes for this account'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No recorded changes</p>
+            ) : (
+              <ol className="space-y-4">
+                {timeline.map((entry) => (
+                  <li key={entry.key} className="flex items-start space-x-3">
+                    <Clock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">{entry.title}</p>
+                      {entry.detail && <p className="text-sm text-muted-foreground">{entry.detail}</p>}
+                      <p className="text-xs text-muted-foreground">{formatDateTime(entry.at)}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <UserFormDialog open={editing} onOpenChange={setEditing} user={user} />
+      <DeleteUserDialog
+        user={deleting ? user : null}
+        onOpenChange={setDeleting}
+        onDeleted={() => navigate('/users', { replace: true })}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default UserDetail;
@@ -1,22 +1,35 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
-import { LoadingSpinner } from '@/components/ui/loading-spinner';
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DataTable, DataTableColumn } from '@/components/data-table/DataTable';
+import { DataTablePagination } from '@/components/data-table/DataTablePagination';
+import { DataTableSearch } from '@/components/data-table/DataTableSearch';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, User } from '@/lib/api';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { fetchAccessData, fetchAllMatchingUsers, usersQuery, useRoles, useUsersPage } from '@/api/queries';
+import { ExportMenu } from '@/components/ExportMenu';
+import { accessReportRows, userRows } from '@/lib/export';
+import { UserFormDialog } from '@/components/users/UserFormDialog';
+import { DeleteUserDialog } from '@/components/users/DeleteUserDialog';
+import { BulkUserActions } from '@/components/users/BulkUserActions';
+import { ImportUsersDialog } from '@/components/users/ImportUsersDialog';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { SortState, useTableParams } from '@/hooks/use-table-params';
+import { useToggleUserActive } from '@/hooks/use-toggle-user-active';
 import { useToast } from '@/hooks/use-toast';
-import { Search, Plus, MoreHorizontal, Shield, Mail } from 'lucide-react';
+import { getErrorToast, User } from '@/lib/api';
+import { getRoleBadgeColor } from '@/lib/roles';
+import { Plus, MoreHorizontal, Shield, Mail, Upload } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,53 +39,71 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+const FILTER_KEYS = ['role_id', 'active'] as const;
+const DEFAULT_SORT: SortState = { column: 'created_at', direction: 'desc' };
+const ALL = 'all';
+
 const Users: React.FC = () => {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const { hasPermission } = useAuth();
+  const table = useTableParams({
+    defaultSort: DEFAULT_SORT,
+    filterKeys: FILTER_KEYS,
+  });
+  const listFilters = {
+    sortBy: table.sort?.column,
+    sortOrder: table.sort?.direction,
+    search: table.search || undefined,
+    roleId: table.filters.role_id ? Number(table.filters.role_id) : undefined,
+    active: table.filters.active ? table.filters.active === 'true' : undefined,
+  };
+  const { data: userPage, isLoading: loading, isFetching } = useUsersPage({
+    ...listFilters,
+    page: table.page,
+    pageSize: table.pageSize,
+  });
+  const { data: roles = [] } = useRoles();
+  const [formOpen, setFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [editing, setEditing] = useState<User | null>(null);
+  const [deleting, setDeleting] = useState<User | null>(null);
+  // Keyed by id and kept across pages, so the bulk confirmation can list
+  // users that are no longer on screen
+  const [selected, setSelected] = useState<Map<number, User>>(new Map());
+  const [selectingAll, setSelectingAll] = useState(false);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user: currentUser, hasPermission } = useAuth();
+  const { toggleActive } = useToggleUserActive();
+  const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchUsers();
-  }, []);
+  const users = userPage?.items ?? [];
+  const total = userPage?.total ?? 0;
+  const filtered = Boolean(table.search || table.filters.role_id || table.filters.active);
 
-  const fetchUsers = async () => {
+  const changeSelection = (rows: User[], select: boolean) => {
+    setSelected((current) => {
+      const next = new Map(current);
+      rows.forEach((user) => (select ? next.set(user.id, user) : next.delete(user.id)));
+      return next;
+    });
+  };
+
+  const selectAllMatching = async () => {
+    setSelectingAll(true);
     try {
-      const response = await api.get<User[]>('/users');
-      if (response.success && Array.isArray(response.data)) {
-        setUsers(response.data);
-      } else {
-        throw new Error(response.message);
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to fetch users",
-        variant: "destructive",
-      });
+      changeSelection(await fetchAllMatchingUsers(queryClient, listFilters), true);
+    } catch (error) {
+      toast(getErrorToast(error, "Failed to select all users"));
     } finally {
-      setLoading(false);
+      setSelectingAll(false);
     }
   };
 
-  const filteredUsers = users.filter(user =>
-    user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    user.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    user.role.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const pageFullySelected = users.length > 0 && users.every((user) => selected.has(user.id));
+  const canBulkEdit = hasPermission('user.update') || hasPermission('user.delete');
 
-  const getRoleBadgeColor = (roleName: string) => {
-    switch (roleName) {
-      case 'Super Admin':
-        return 'bg-destructive text-destructive-foreground';
-      case 'Admin':
-        return 'bg-warning text-warning-foreground';
-      case 'Manager':
-        return 'bg-primary text-primary-foreground';
-      default:
-        return 'bg-secondary text-secondary-foreground';
-    }
+  const openForm = (user: User | null) => {
+    setEditing(user);
+    setFormOpen(true);
   };
 
   const formatDate = (dateString: string) => {
@@ -83,15 +114,96 @@ const Users: React.FC = () => {
     });
   };
 
-  if (loading) {
-    return (
-      <DashboardLayout>
-        <div className="flex items-center justify-center h-64">
-          <LoadingSpinner size="lg" />
+  const columns: DataTableColumn<User>[] = [
+    {
+      id: 'name',
+      header: 'User',
+      sortable: true,
+      cell: (user) => (
+        <div className="flex items-center space-x-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-primary-foreground text-sm">
+            {user.name.charAt(0).toUpperCase()}
+          </div>
+          <div>
+            <div className="font-medium">{user.name}</div>
+            <div className="text-sm text-muted-foreground flex items-center">
+              <Mail className="h-3 w-3 mr-1" />
+              {user.email}
+            </div>
+          </div>
         </div>
-      </DashboardLayout>
-    );
-  }
+      ),
+    },
+    {
+      id: 'role',
+      header: 'Role',
+      sortable: true,
+      cell: (user) => (
+        <Badge className={getRoleBadgeColor(user.role.name)}>
+          {user.role.name}
+        </Badge>
+      ),
+    },
+    {
+      id: 'active',
+      header: 'Status',
+      sortable: true,
+      cell: (user) => (
+        <Badge variant={user.active ? 'default' : 'secondary'}>
+          {user.active ? 'Active' : 'Inactive'}
+        </Badge>
+      ),
+    },
+    {
+      id: 'created_at',
+      header: 'Created',
+      sortable: true,
+      className: 'text-muted-foreground',
+      cell: (user) => formatDate(user.created_at),
+    },
+    {
+      id: 'actions',
+      header: 'Actions',
+      className: 'w-[70px]',
+      cell: (user) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Open menu</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => navigate(`/users/${user.id}`)}>
+              View details
+            </DropdownMenuItem>
+            {hasPermission('user.update') && (
+              <DropdownMenuItem onSelect={() => openForm(user)}>Edit user</DropdownMenuItem>
+            )}
+            {hasPermission('user.update') && (
+              <DropdownMenuItem
+                onSelect={() => toggleActive(user)}
+                disabled={user.id === currentUser?.id && user.active}
+              >
+                {user.active ? 'Deactivate' : 'Activate'}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            {hasPermission('user.delete') && (
+              <DropdownMenuItem
+                className="text-destructive"
+                onSelect={() => setDeleting(user)}
+                disabled={user.id === currentUser?.id}
+              >
+                Delete user
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
 
   return (
     <DashboardLayout>
@@ -103,12 +215,47 @@ const Users: React.FC = () => {
               Manage user accounts and permissions
             </p>
           </div>
-          {hasPermission('user.create') && (
-            <Button className="bg-gradient-primary hover:opacity-90">
-              <Plus className="h-4 w-4 mr-2" />
-              Add User
-            </Button>
-          )}
+          <div className="flex items-center space-x-2">
+            <ExportMenu
+              datasets={[
+                {
+                  label: 'Filtered users',
+                  name: 'users-filtered',
+                  getRows: async () => userRows(await fetchAllMatchingUsers(queryClient, listFilters)),
+                  disabled: !filtered,
+                },
+                {
+                  label: 'All users',
+                  name: 'users',
+                  getRows: async () => userRows(await queryClient.fetchQuery(usersQuery())),
+                },
+                ...(hasPermission('permission.read')
+                  ? [
+                      {
+                        label: 'Access report (user → role → permissions)',
+                        name: 'access-report',
+                        getRows: async () => {
+                          const { users, assignments } = await fetchAccessData(queryClient);
+                          return accessReportRows(users, assignments);
+                        },
+                      },
+                    ]
+                  : []),
+              ]}
+            />
+            {hasPermission('user.create') && (
+              <>
+                <Button variant="outline" onClick={() => setImportOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <Button className="bg-gradient-primary hover:opacity-90" onClick={() => openForm(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add User
+                </Button>
+              </>
+            )}
+          </div>
         </div>
 
         <Card>
@@ -121,122 +268,101 @@ const Users: React.FC = () => {
                 </CardDescription>
               </div>
               <div className="flex items-center space-x-2">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    placeholder="Search users..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-64 pl-9"
-                  />
-                </div>
+                <Select
+                  value={table.filters.role_id ?? ALL}
+                  onValueChange={(value) => table.setFilter('role_id', value === ALL ? null : value)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All roles</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id.toString()}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={table.filters.active ?? ALL}
+                  onValueChange={(value) => table.setFilter('active', value === ALL ? null : value)}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    <SelectItem value="true">Active</SelectItem>
+                    <SelectItem value="false">Inactive</SelectItem>
+                  </SelectContent>
+                </Select>
+                <DataTableSearch
+                  value={table.search}
+                  onChange={table.setSearch}
+                  placeholder="Search users..."
+                />
               </div>
             </div>
           </CardHeader>
-          <CardContent>
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>User</TableHead>
-                    <TableHead>Role</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Created</TableHead>
-                    <TableHead className="w-[70px]">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredUsers.length === 0 ? (
-                    <TableRow>
-                      <TableCell colSpan={5} className="text-center py-8">
-                        <div className="flex flex-col items-center space-y-2">
-                          <Shield className="h-8 w-8 text-muted-foreground" />
-                          <p className="text-muted-foreground">
-                            {searchQuery ? 'No users found matching your search' : 'No users found'}
-                          </p>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ) : (
-                    filteredUsers.map((user) => (
-                      <TableRow key={user.id}>
-                        <TableCell>
-                          <div className="flex items-center space-x-3">
-                            <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-primary-foreground text-sm">
-                              {user.name.charAt(0).toUpperCase()}
-                            </div>
-                            <div>
-                              <div className="font-medium">{user.name}</div>
-                              <div className="text-sm text-muted-foreground flex items-center">
-                                <Mail className="h-3 w-3 mr-1" />
-                                {user.email}
-                              </div>
-                            </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={getRoleBadgeColor(user.role.name)}>
-                            {user.role.name}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant={user.active ? 'default' : 'secondary'}>
-                            {user.active ? 'Active' : 'Inactive'}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {formatDate(user.created_at)}
-                        </TableCell>
-                        <TableCell>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                                <MoreHorizontal className="h-4 w-4" />
-                                <span className="sr-only">Open menu</span>
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                              <DropdownMenuItem>View details</DropdownMenuItem>
-                              {hasPermission('user.update') && (
-                                <DropdownMenuItem>Edit user</DropdownMenuItem>
-                              )}
-                              {hasPermission('user.update') && (
-                                <DropdownMenuItem>
-                                  {user.active ? 'Deactivate' : 'Activate'}
-                                </DropdownMenuItem>
-                              )}
-                              <DropdownMenuSeparator />
-                              {hasPermission('user.delete') && (
-                                <DropdownMenuItem className="text-destructive">
-                                  Delete user
-                                </DropdownMenuItem>
-                              )}
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </TableCell>
-                      </TableRow>
-                    ))
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-            
-            {filteredUsers.length > 0 && (
-              <div className="flex items-center justify-between pt-4">
-                <p className="text-sm text-muted-foreground">
-                  Showing {filteredUsers.length} of {users.length} users
-                </p>
-                <div className="text-sm text-muted-foreground">
-                  Total: {users.length} users
-                </div>
+          <CardContent className="space-y-4">
+            <BulkUserActions
+              selected={[...selected.values()]}
+              roles={roles}
+              onClear={() => setSelected(new Map())}
+              onProcessed={(succeeded) => changeSelection(succeeded, false)}
+            />
+
+            {pageFullySelected && selected.size < total && (
+              <div className="flex items-center justify-center space-x-2 text-sm text-muted-foreground">
+                <span>
+                  {selected.size} users selected.
+                </span>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={selectAllMatching} disabled={selectingAll}>
+                  {selectingAll ? <LoadingSpinner size="sm" /> : `Select all ${total} matching users`}
+                </Button>
               </div>
             )}
+
+            <DataTable
+              columns={columns}
+              rows={users}
+              getRowId={(user) => user.id}
+              sort={table.sort}
+              onSortChange={table.setSort}
+              isLoading={loading}
+              isFetching={isFetching}
+              selectedIds={canBulkEdit ? new Set(selected.keys()) : undefined}
+              onSelectionChange={canBulkEdit ? changeSelection : undefined}
+              emptyState={
+                <div className="flex flex-col items-center space-y-2">
+                  <Shield className="h-8 w-8 text-muted-foreground" />
+                  <p className="text-muted-foreground">
+                    {filtered ? 'No users found matching your filters' : 'No users found'}
+                  </p>
+                </div>
+              }
+            />
+
+            {total > 0 && (
+              <DataTablePagination
+                page={table.page}
+                pageSize={table.pageSize}
+                total={total}
+                onPageChange={table.setPage}
+                onPageSizeChange={table.setPageSize}
+                itemLabel="users"
+              />
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <UserFormDialog open={formOpen} onOpenChange={setFormOpen} user={editing} />
+      <DeleteUserDialog user={deleting} onOpenChange={(open) => !open && setDeleting(null)} />
+      <ImportUsersDialog open={importOpen} onOpenChange={setImportOpen} />
     </DashboardLayout>
   );
 };
 
-export default Users;
\ No newline at end of file
+export default Users;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRequestPasswordReset } from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast } from '@/lib/api';
+import { applyFieldErrors } from '@/lib/form-errors';
+import { KeyRound, Mail, MailCheck } from 'lucide-react';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().min(1, 'Email is required').email('Enter a valid email address'),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  // The address the reset email went to, once sent
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const requestReset = useRequestPasswordReset();
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    // Prefilled when coming from an expired reset link or the login form
+    defaultValues: { email: searchParams.get('email') ?? '' },
+  });
+
+  const onSubmit = async ({ email }: ForgotPasswordValues) => {
+    try {
+      await requestReset.mutateAsync(email);
+      setSentTo(email);
+    } catch (error) {
+      if (!applyFieldErrors(error, form.setError, ['email'])) {
+        toast(getErrorToast(error, "Failed to send reset email"));
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-light to-accent p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary">
+              {sentTo ? (
+                <MailCheck className="h-6 w-6 text-primary-foreground" />
+              ) : (
+                <KeyRound className="h-6 w-6 text-primary-foreground" />
+              )}
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold">{sentTo ? 'Check your email' : 'Forgot password?'}</CardTitle>
+            <CardDescription>
+              {sentTo
+                ? // Same wording whether or not the address has an account
+                  `If an account exists for ${sentTo}, we've sent a link to reset its password.`
+                : "Enter your account's email and we'll send you a link to reset your password."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        {sentTo ? (
+          <CardFooter className="flex flex-col space-y-2">
+            <p className="text-sm text-center text-muted-foreground">
+              The link expires after a while. Didn't get it? Check your spam folder or send another.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => onSubmit({ email: sentTo })}
+              disabled={requestReset.isPending}
+            >
+              {requestReset.isPending ? <LoadingSpinner size="sm" /> : 'Resend email'}
+            </Button>
+            <Button asChild variant="ghost" className="w-full">
+              <Link to="/login">Back to sign in</Link>
+            </Button>
+          </CardFooter>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder="Enter your email"
+                            autoComplete="email"
+                            className="pl-9"
+                            disabled={requestReset.isPending}
+                            {...field}
+                          />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              <CardFooter className="flex flex-col space-y-2">
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-primary hover:opacity-90"
+                  disabled={requestReset.isPending}
+                >
+                  {requestReset.isPending ? <LoadingSpinner size="sm" /> : 'Send reset link'}
+                </Button>
+                <Button asChild variant="ghost" className="w-full">
+                  <Link to="/login">Back to sign in</Link>
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,13 +1,13 @@
 // login.tsx
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, Location, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useAuth } from '@/contexts/AuthContext';
-import { api } from '@/lib/api';
+import { startGoogleSignIn } from '@/lib/oauth';
 import { Building2, Mail, Lock, Chrome } from 'lucide-react';
 
 const Login: React.FC = () => {
@@ -21,7 +21,12 @@ const Login: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
 
-  const from = (location.state as any)?.from?.pathname || '/dashboard';
+  // Set by ProtectedRoute when it bounced a signed-out visitor (or an expired
+  // session) to the login page
+  const fromLocation = (location.state as { from?: Location } | null)?.from;
+  const from = fromLocation
+    ? `${fromLocation.pathname}${fromLocation.search}${fromLocation.hash}`
+    : '/dashboard';
 
   useEffect(() => {
     if (user) {
@@ -40,13 +45,7 @@ const Login: React.FC = () => {
 
       console.log('Login success:', success);
       if (success) {
-
-        console.log('Redirecting to dashboard');
-
-
-        navigate('/dashboard');
-
-        //navigate(from, { replace: true });
+        navigate(from, { replace: true });
       } else {
         setError('Invalid email or password.');
       }
@@ -59,7 +58,7 @@ const Login: React.FC = () => {
 
   const handleGoogleLogin = () => {
     setLoading(true);
-    window.location.href = api.getGoogleAuthUrl();
+    startGoogleSignIn(from);
   };
 
   return (
@@ -104,7 +103,15 @@ const Login: React.FC = () => {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  to={email ? `/forgot-password?email=${encodeURIComponent(email)}` : '/forgot-password'}
+                  className="text-sm text-primary hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input
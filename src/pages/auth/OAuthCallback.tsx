@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { OAuthError, oauthFailure, parseOAuthError, startGoogleSignIn, takeOAuthReturnTo } from '@/lib/oauth';
+import { AlertTriangle, Chrome } from 'lucide-react';
+
+// Where the backend sends the browser after Google sign-in. On success the
+// session cookie is already set; all that's left is loading the user.
+const OAuthCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<OAuthError | null>(null);
+  const { completeExternalLogin } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // StrictMode runs effects twice; the callback must only be handled once
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const reported = parseOAuthError(searchParams);
+    if (reported) {
+      setError(reported);
+      return;
+    }
+
+    completeExternalLogin().then((signedIn) => {
+      if (signedIn) {
+        toast({
+          title: "Login successful",
+          description: "Welcome back to ERP Admin",
+        });
+        navigate(takeOAuthReturnTo(), { replace: true });
+      } else {
+        // Usually the session cookie was blocked on the way back
+        setError(oauthFailure());
+      }
+    });
+  }, [searchParams, completeExternalLogin, navigate, toast]);
+
+  const email = searchParams.get('email');
+
+  if (!error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <LoadingSpinner size="lg" />
+        <p className="text-sm text-muted-foreground">Completing Google sign-in...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-light to-accent p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-destructive/10">
+              <AlertTriangle className="h-6 w-6 text-destructive" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold">{error.title}</CardTitle>
+            <CardDescription>{error.description}</CardDescription>
+          </div>
+        </CardHeader>
+        {email && (
+          <CardContent>
+            <p className="text-sm text-center text-muted-foreground">
+              Google account: <span className="font-medium text-foreground">{email}</span>
+            </p>
+          </CardContent>
+        )}
+        <CardFooter className="flex flex-col space-y-2">
+          {error.kind === 'not-linked' ? (
+            <Button asChild className="w-full bg-gradient-primary hover:opacity-90">
+              <Link to={email ? `/register?email=${encodeURIComponent(email)}` : '/register'}>Create account</Link>
+            </Button>
+          ) : (
+            error.kind !== 'disabled' && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => startGoogleSignIn(takeOAuthReturnTo())}
+              >
+                <Chrome className="h-4 w-4 mr-2" />
+                Try Google again
+              </Button>
+            )
+          )}
+          <Button asChild variant="ghost" className="w-full">
+            <Link to="/login">Back to sign in</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default OAuthCallback;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,19 +7,22 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useAuth } from '@/contexts/AuthContext';
-import { api, Role } from '@/lib/api';
-import { Building2, User, Mail, Lock } from 'lucide-react';
+import { useRoles } from '@/api/queries';
+import { Building2, User, Mail, Lock, Chrome } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { startGoogleSignIn } from '@/lib/oauth';
+import { isProtectedRole } from '@/lib/roles';
 
 const Register: React.FC = () => {
+  const [searchParams] = useSearchParams();
   const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
+  // Prefilled when the Google callback found no account for this address
+  const [email, setEmail] = useState(() => searchParams.get('email') ?? '');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [roleId, setRoleId] = useState<string>('');
-  const [roles, setRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(false);
-  const [rolesLoading, setRolesLoading] = useState(true);
+  const { data: allRoles = [], isLoading: rolesLoading } = useRoles();
   const { register, user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -30,25 +33,14 @@ const Register: React.FC = () => {
     }
   }, [user, navigate]);
 
-  useEffect(() => {
-    fetchRoles();
-  }, []);
+  // Filter out admin roles for public registration
+  const roles = allRoles.filter((role) =>
+    role.active && !isProtectedRole(role)
+  );
 
-  const fetchRoles = async () => {
-    try {
-      const response = await api.get<Role[]>('/roles');
-      if (response.success && Array.isArray(response.data)) {
-        // Filter out admin roles for public registration
-        const publicRoles = response.data.filter((role: Role) => 
-          role.active && !['Super Admin', 'Admin'].includes(role.name)
-        );
-        setRoles(publicRoles);
-      }
-    } catch (error) {
-      console.error('Failed to fetch roles:', error);
-    } finally {
-      setRolesLoading(false);
-    }
+  const handleGoogleSignUp = () => {
+    setLoading(true);
+    startGoogleSignIn('/dashboard');
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -201,6 +193,28 @@ const Register: React.FC = () => {
               )}
             </Button>
             
+            <div className="relative w-full">
+              <div className="absolute inset-0 flex items-center">
+                <span className="w-full border-t" />
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-background px-2 text-muted-foreground">
+                  Or sign up with
+                </span>
+              </div>
+            </div>
+            
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleGoogleSignUp}
+              disabled={loading}
+            >
+              <Chrome className="h-4 w-4 mr-2" />
+              Google
+            </Button>
+            
             <div className="text-center text-sm">
               <span className="text-muted-foreground">Already have an account? </span>
               <Link 
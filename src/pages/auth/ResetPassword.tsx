@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import {
+  getResetFieldErrors,
+  getResetTokenProblem,
+  ResetTokenProblem,
+  useResetPassword,
+  useResetToken,
+} from '@/api/queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorToast } from '@/lib/api';
+import { MIN_PASSWORD_LENGTH, MIN_PASSWORD_SCORE, scorePassword } from '@/lib/password-strength';
+import { AlertTriangle, Building2, Lock } from 'lucide-react';
+
+const resetPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      .refine(
+        (password) => scorePassword(password).score >= MIN_PASSWORD_SCORE,
+        'Password is too easy to guess'
+      ),
+    confirmPassword: z.string().min(1, 'Confirm your new password'),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+
+const TOKEN_PROBLEMS: Record<ResetTokenProblem, { title: string; description: string }> = {
+  expired: {
+    title: 'Reset link expired',
+    description: 'For your security, password reset links only work for a limited time. Request a new one below.',
+  },
+  invalid: {
+    title: 'Invalid reset link',
+    description:
+      'This password reset link is not valid. It may have been used already or copied incompletely. Request a new one below.',
+  },
+};
+
+const ResetPassword: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const tokenCheck = useResetToken(token);
+  const resetPassword = useResetPassword();
+  // Set when submitting reveals the token went bad after the page loaded
+  const [submitProblem, setSubmitProblem] = useState<ResetTokenProblem | null>(null);
+  const [showPassword, setShowPassword] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+  const password = form.watch('password');
+
+  const onSubmit = async ({ password }: ResetPasswordValues) => {
+    try {
+      await resetPassword.mutateAsync({ token, password });
+      toast({
+        title: "Password reset",
+        description: "Your password has been changed. Sign in with your new password.",
+      });
+      navigate('/login', { replace: true });
+    } catch (error) {
+      // Checked first: a rejected password must keep the form, not end the flow
+      const passwordErrors = getResetFieldErrors(error).password;
+      const problem = getResetTokenProblem(error);
+      if (passwordErrors?.length) {
+        form.setError('password', { type: 'server', message: passwordErrors.join('. ') }, { shouldFocus: true });
+      } else if (problem) {
+        setSubmitProblem(problem);
+      } else {
+        toast(getErrorToast(error, "Failed to reset password"));
+      }
+    }
+  };
+
+  if (tokenCheck.isPending) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <LoadingSpinner size="lg" />
+        <p className="text-sm text-muted-foreground">Checking your reset link...</p>
+      </div>
+    );
+  }
+
+  const problem = submitProblem ?? (tokenCheck.isError ? getResetTokenProblem(tokenCheck.error) : null);
+
+  if (problem || tokenCheck.isError) {
+    // Without a known problem the check itself failed, e.g. the server was unreachable
+    const { title, description } = problem
+      ? TOKEN_PROBLEMS[problem]
+      : getErrorToast(tokenCheck.error, "Failed to check reset link");
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-light to-accent p-4">
+        <Card className="w-full max-w-md shadow-xl">
+          <CardHeader className="text-center space-y-4">
+            <div className="flex justify-center">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-destructive/10">
+                <AlertTriangle className="h-6 w-6 text-destructive" />
+              </div>
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+              <CardDescription>{description}</CardDescription>
+            </div>
+          </CardHeader>
+          <CardFooter className="flex flex-col space-y-2">
+            {problem ? (
+              <Button asChild className="w-full bg-gradient-primary hover:opacity-90">
+                <Link to="/forgot-password">Request a new link</Link>
+              </Button>
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => tokenCheck.refetch()}>
+                Try again
+              </Button>
+            )}
+            <Button asChild variant="ghost" className="w-full">
+              <Link to="/login">Back to sign in</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-light to-accent p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary">
+              <Building2 className="h-6 w-6 text-primary-foreground" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold">Choose a new password</CardTitle>
+            <CardDescription>Enter and confirm the new password for your ERP Admin account</CardDescription>
+          </div>
+        </CardHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New password</FormLabel>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <FormControl>
+                        <Input
+                          type={showPassword ? 'text' : 'password'}
+                          placeholder="Enter a new password"
+                          autoComplete="new-password"
+                          className="pl-9 pr-10"
+                          disabled={resetPassword.isPending}
+                          {...field}
+                        />
+                      </FormControl>
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm"
+                      >
+                        {showPassword ? '🙈' : '👁️'}
+                      </button>
+                    </div>
+                    <PasswordStrengthMeter password={password} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm password</FormLabel>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <FormControl>
+                        <Input
+                          type={showPassword ? 'text' : 'password'}
+                          placeholder="Re-enter the new password"
+                          autoComplete="new-password"
+                          className="pl-9"
+                          disabled={resetPassword.isPending}
+                          {...field}
+                        />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-2">
+              <Button
+                type="submit"
+                className="w-full bg-gradient-primary hover:opacity-90"
+                disabled={resetPassword.isPending}
+              >
+                {resetPassword.isPending ? <LoadingSpinner size="sm" /> : 'Reset password'}
+              </Button>
+              <Button asChild variant="ghost" className="w-full">
+                <Link to="/login">Back to sign in</Link>
+              </Button>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;